@@ -1,46 +1,146 @@
-import React, { useState, useEffect } from 'react';
-import { AppStep, ApiConfig, CsvRow, Mapping } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AppStep, ApiConfig, CsvRow, JobLog, Mapping, PathRename, RequestStep } from './types';
+import { syncMappingsWithTemplate } from './utils/dataUtils';
+import { runChainPreflight } from './utils/validation';
+import { syncPathMappings } from './utils/requestBuilder';
+import { indexFiles } from './utils/fileAttachments';
+import { clearSavedJob, isUnfinishedJob, loadSavedJob, SavedJob } from './utils/jobStore';
+import { createFollowUpStep, createRequestStep, formatStepLabel, getChainedColumns } from './utils/requestSteps';
 import CurlImporter from './components/CurlImporter';
+import ConfigEditor from './components/ConfigEditor';
+import RequestStepTabs from './components/RequestStepTabs';
 import DataMapper from './components/DataMapper';
+import PreflightReport from './components/PreflightReport';
 import JobRunner from './components/JobRunner';
 import ApiKeyModal from './components/ApiKeyModal';
-import { CloudLightning, Key } from 'lucide-react';
+import { CloudLightning, Key, History } from 'lucide-react';
 
 function App() {
   const [step, setStep] = useState<AppStep>(AppStep.CONFIGURE);
   
   // State for the wizard
   const [curlCommand, setCurlCommand] = useState<string>('');
-  const [apiConfig, setApiConfig] = useState<ApiConfig | null>(null);
+  const [steps, setSteps] = useState<RequestStep[]>([]);
+  const [activeStepIndex, setActiveStepIndex] = useState(0);
   const [bulkData, setBulkData] = useState<CsvRow[]>([]);
-  const [mappings, setMappings] = useState<Mapping[]>([]);
+  const [attachedFiles, setAttachedFiles] = useState<File[]>([]);
+
+  // A job that was interrupted by a reload or crash, offered for resuming on startup
+  const [savedJob, setSavedJob] = useState<SavedJob | null>(null);
+  // Progress restored from the saved job, valid only for the steps it was saved with
+  const [resumed, setResumed] = useState<{ steps: RequestStep[], logs: JobLog[] } | null>(null);
+
+  useEffect(() => {
+    loadSavedJob().then(job => {
+      if (job && isUnfinishedJob(job)) setSavedJob(job);
+    });
+  }, []);
 
   // API Key State
   const [apiKey, setApiKey] = useState<string>(() => {
     return process.env.API_KEY || localStorage.getItem('gemini_api_key') || '';
   });
 
+  const [showKeyModal, setShowKeyModal] = useState(false);
+
   const handleSaveKey = (key: string) => {
     localStorage.setItem('gemini_api_key', key);
     setApiKey(key);
+    setShowKeyModal(false);
+  };
+
+  // The config and mappings of the step being edited
+  const activeStep = steps[activeStepIndex];
+  const apiConfig = activeStep ? activeStep.config : null;
+  const mappings = activeStep ? activeStep.mappings : [];
+
+  const updateActiveStep = (update: Partial<RequestStep>) => {
+    setSteps(prev => prev.map((s, i) => i === activeStepIndex ? { ...s, ...update } : s));
+  };
+
+  // Mappings are created lazily by DataMapper, so there is only something to sync once they exist
+  const syncMappings = (prev: Mapping[], previous: ApiConfig, config: ApiConfig, renames: PathRename[] = []) => {
+    if (prev.length === 0) return prev;
+    return syncPathMappings(syncMappingsWithTemplate(prev, previous.bodyTemplate, config.bodyTemplate, renames), config.url);
+  };
+
+  const applyConfig = (config: ApiConfig, renames: PathRename[] = []) => {
+    if (!activeStep) {
+      setSteps([createRequestStep(config)]);
+      setActiveStepIndex(0);
+      return;
+    }
+    updateActiveStep({ config, mappings: syncMappings(activeStep.mappings, activeStep.config, config, renames) });
   };
 
   const handleConfigParsed = (config: ApiConfig, rawCurl: string) => {
-    setApiConfig(config);
+    applyConfig(config);
     setCurlCommand(rawCurl);
     setStep(AppStep.DATA_ENTRY);
   };
 
+  const handleConfigEdited = (config: ApiConfig, renames: PathRename[]) => {
+    applyConfig(config, renames);
+  };
+
   const handleDataReady = (data: CsvRow[], maps: Mapping[]) => {
     setBulkData(data);
-    setMappings(maps);
-    setStep(AppStep.EXECUTE);
+    updateActiveStep({ mappings: maps });
+    setStep(AppStep.PREFLIGHT);
+  };
+
+  const addStep = () => {
+    if (!apiConfig) return;
+    setSteps(prev => [...prev, createFollowUpStep(prev[prev.length - 1].config)]);
+    setActiveStepIndex(steps.length);
   };
 
+  const removeStep = (index: number) => {
+    if (!confirm(`Remove ${formatStepLabel(steps, index)} and its mappings?`)) return;
+    setSteps(prev => prev.filter((_, i) => i !== index));
+    setActiveStepIndex(prev => Math.max(0, prev > index || prev === steps.length - 1 ? prev - 1 : prev));
+  };
+
+  const resumeSavedJob = () => {
+    if (!savedJob) return;
+    const { steps: savedSteps, files } = savedJob.project;
+    const data = savedJob.logs.map(log => log.data);
+    setSteps(savedSteps);
+    setActiveStepIndex(0);
+    setAttachedFiles(files);
+    setBulkData(data);
+    setResumed({ steps: savedSteps, logs: savedJob.logs });
+    setSavedJob(null);
+    // The same gate as the step navigation: problems found now have to be fixed first
+    setStep(runChainPreflight(savedSteps, data, indexFiles(files)).blocked ? AppStep.PREFLIGHT : AppStep.EXECUTE);
+  };
+
+  const discardSavedJob = () => {
+    clearSavedJob();
+    setSavedJob(null);
+  };
+
+  // Starting another job replaces the saved one; leaving the job drops the restored progress,
+  // which no longer matches the rows once the job has run on
+  const previousStepRef = useRef(step);
+  useEffect(() => {
+    if (step === AppStep.EXECUTE) setSavedJob(null);
+    if (previousStepRef.current === AppStep.EXECUTE && step !== AppStep.EXECUTE) setResumed(null);
+    previousStepRef.current = step;
+  }, [step]);
+
+  const fileIndex = useMemo(() => indexFiles(attachedFiles), [attachedFiles]);
+
+  const preflight = useMemo(
+    () => steps.length > 0 && bulkData.length > 0 ? runChainPreflight(steps, bulkData, fileIndex) : null,
+    [steps, bulkData, fileIndex]
+  );
+
   const canNavigateTo = (targetStep: AppStep) => {
       if (targetStep === AppStep.CONFIGURE) return true;
       if (targetStep === AppStep.DATA_ENTRY) return !!apiConfig;
-      if (targetStep === AppStep.EXECUTE) return !!apiConfig && bulkData.length > 0;
+      if (targetStep === AppStep.PREFLIGHT) return !!apiConfig && bulkData.length > 0;
+      if (targetStep === AppStep.EXECUTE) return !!apiConfig && !!preflight && !preflight.blocked;
       return false;
   };
 
@@ -78,6 +178,14 @@ function App() {
                  <StepIndicator 
                     current={step} 
                     step={3} 
+                    label="Check" 
+                    onClick={() => canNavigateTo(AppStep.PREFLIGHT) && setStep(AppStep.PREFLIGHT)}
+                    enabled={canNavigateTo(AppStep.PREFLIGHT)}
+                 />
+                 <div className="w-8 h-px bg-slate-300"></div>
+                 <StepIndicator 
+                    current={step} 
+                    step={4} 
                     label="Execute" 
                     onClick={() => canNavigateTo(AppStep.EXECUTE) && setStep(AppStep.EXECUTE)}
                     enabled={canNavigateTo(AppStep.EXECUTE)}
@@ -92,44 +200,97 @@ function App() {
                     <Key size={14} /> Clear Key
                  </button>
              )}
+             {!apiKey && (
+                 <button 
+                    onClick={() => setShowKeyModal(true)}
+                    className="flex items-center gap-1 text-slate-400 hover:text-indigo-600 transition-colors ml-4"
+                    title="Optional: used as a fallback for cURL commands the local parser cannot read"
+                 >
+                    <Key size={14} /> Set Gemini Key
+                 </button>
+             )}
           </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="flex-1 bg-slate-50 p-6 md:p-12 overflow-x-hidden relative">
-        {!apiKey ? (
-            <ApiKeyModal onSave={handleSaveKey} />
-        ) : (
-            <div className="transition-all duration-500">
-                {step === AppStep.CONFIGURE && (
+        {showKeyModal && (
+            <ApiKeyModal onSave={handleSaveKey} onClose={() => setShowKeyModal(false)} />
+        )}
+
+        {savedJob && (
+            <SavedJobBanner job={savedJob} onResume={resumeSavedJob} onDiscard={discardSavedJob} />
+        )}
+
+        <div className="transition-all duration-500">
+            {step === AppStep.CONFIGURE && (
+            <div className="space-y-6">
+                {apiConfig && (
+                    <RequestStepTabs
+                        steps={steps}
+                        activeIndex={activeStepIndex}
+                        onSelect={setActiveStepIndex}
+                        onAdd={addStep}
+                        onRemove={removeStep}
+                        onRename={(index, name) => setSteps(prev => prev.map((s, i) => i === index ? { ...s, name } : s))}
+                    />
+                )}
                 <CurlImporter 
                     initialCurl={curlCommand}
                     onConfigParsed={handleConfigParsed} 
                     apiKey={apiKey}
+                    onRequestApiKey={() => setShowKeyModal(true)}
                 />
-                )}
-                
-                {step === AppStep.DATA_ENTRY && apiConfig && (
-                <DataMapper 
-                    apiConfig={apiConfig} 
-                    initialData={bulkData}
-                    initialMappings={mappings}
-                    onBack={() => setStep(AppStep.CONFIGURE)}
-                    onNext={handleDataReady}
-                />
-                )}
-
-                {step === AppStep.EXECUTE && apiConfig && (
-                <JobRunner 
-                    apiConfig={apiConfig}
-                    data={bulkData}
-                    mappings={mappings}
-                    onBack={() => setStep(AppStep.DATA_ENTRY)}
-                />
+                {apiConfig && (
+                    <ConfigEditor
+                        key={activeStep.id}
+                        config={apiConfig}
+                        onApply={handleConfigEdited}
+                        onContinue={() => setStep(AppStep.DATA_ENTRY)}
+                    />
                 )}
             </div>
-        )}
+            )}
+            
+            {step === AppStep.DATA_ENTRY && apiConfig && (
+            <DataMapper 
+                key={activeStep.id}
+                apiConfig={apiConfig} 
+                stepLabel={steps.length > 1 ? formatStepLabel(steps, activeStepIndex) : undefined}
+                chainedColumns={getChainedColumns(steps, activeStepIndex).map(c => c.column)}
+                initialData={bulkData}
+                initialMappings={mappings}
+                files={attachedFiles}
+                onFilesChange={setAttachedFiles}
+                onBack={(data, maps) => {
+                    setBulkData(data);
+                    updateActiveStep({ mappings: maps });
+                    setStep(AppStep.CONFIGURE);
+                }}
+                onNext={handleDataReady}
+            />
+            )}
+
+            {step === AppStep.PREFLIGHT && apiConfig && preflight && (
+            <PreflightReport
+                result={preflight}
+                onBack={() => setStep(AppStep.DATA_ENTRY)}
+                onContinue={() => setStep(AppStep.EXECUTE)}
+            />
+            )}
+
+            {step === AppStep.EXECUTE && apiConfig && (
+            <JobRunner 
+                steps={steps}
+                data={bulkData}
+                files={fileIndex}
+                resumedLogs={resumed && resumed.steps === steps ? resumed.logs : null}
+                onDataChange={setBulkData}
+                onBack={() => setStep(AppStep.DATA_ENTRY)}
+            />
+            )}
+        </div>
       </main>
 
       <footer className="bg-white border-t border-slate-200 py-6 text-center text-slate-400 text-sm">
@@ -139,6 +300,35 @@ function App() {
   );
 }
 
+const SavedJobBanner: React.FC<{
+    job: SavedJob,
+    onResume: () => void,
+    onDiscard: () => void
+}> = ({ job, onResume, onDiscard }) => {
+    const succeeded = job.logs.filter(log => log.status === 'success').length;
+    const failed = job.logs.filter(log => log.status === 'error').length;
+    const lastActivity = new Date(Math.max(...job.logs.map(log => new Date(log.timestamp).getTime())));
+
+    return (
+        <div className="max-w-4xl mx-auto mb-6 p-4 bg-amber-50 border border-amber-200 rounded-xl flex flex-col md:flex-row md:items-center gap-3 text-amber-900">
+            <History size={20} className="text-amber-600 shrink-0" />
+            <div className="flex-1 text-sm">
+                <strong>Unfinished job found.</strong> {succeeded} of {job.logs.length} rows succeeded
+                {failed > 0 && `, ${failed} failed`}; last activity {lastActivity.toLocaleString()}.
+                Resuming skips the rows that already succeeded.
+            </div>
+            <div className="flex gap-2">
+                <button onClick={onDiscard} className="px-3 py-1.5 text-sm rounded-lg text-amber-800 hover:bg-amber-100 font-medium">
+                    Discard
+                </button>
+                <button onClick={onResume} className="px-3 py-1.5 text-sm rounded-lg bg-amber-600 text-white hover:bg-amber-700 font-medium">
+                    Resume Job
+                </button>
+            </div>
+        </div>
+    );
+};
+
 const StepIndicator: React.FC<{
     current: number, 
     step: number, 
@@ -1,11 +1,12 @@
 import React, { useState } from 'react';
-import { Key, ArrowRight, ShieldCheck, ExternalLink } from 'lucide-react';
+import { Key, ArrowRight, ShieldCheck, ExternalLink, X } from 'lucide-react';
 
 interface Props {
   onSave: (key: string) => void;
+  onClose?: () => void;
 }
 
-const ApiKeyModal: React.FC<Props> = ({ onSave }) => {
+const ApiKeyModal: React.FC<Props> = ({ onSave, onClose }) => {
   const [inputKey, setInputKey] = useState('');
 
   const handleSave = () => {
@@ -17,7 +18,12 @@ const ApiKeyModal: React.FC<Props> = ({ onSave }) => {
   return (
     <div className="fixed inset-0 z-[100] bg-slate-900/80 backdrop-blur-sm flex items-center justify-center p-4">
       <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-300">
-        <div className="bg-gradient-to-r from-indigo-600 to-blue-600 p-6 text-white text-center">
+        <div className="bg-gradient-to-r from-indigo-600 to-blue-600 p-6 text-white text-center relative">
+          {onClose && (
+            <button onClick={onClose} className="absolute top-3 right-3 p-1.5 rounded-full text-white/70 hover:text-white hover:bg-white/10">
+              <X size={18} />
+            </button>
+          )}
           <div className="bg-white/20 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4 backdrop-blur-md">
             <Key size={32} className="text-white" />
           </div>
@@ -0,0 +1,687 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ApiConfig, PathRename, QueryOptions, QueryArrayStyle, QueryObjectStyle, BodyEncoding, XmlOptions, GraphQLConfig, SuccessRule, SuccessRuleKind, JsonPathOperator, ResponseExtractor, ExtractorKind } from '../types';
+import JsonTreeEditor from './JsonTreeEditor';
+import { BODY_CONTENT_TYPES, DEFAULT_QUERY_OPTIONS, fillPlaceholdersForValidation, getUrlPlaceholders, methodSendsBody } from '../utils/requestBuilder';
+import { BODY_ENCODING_LABELS, DEFAULT_XML_OPTIONS } from '../utils/bodyEncoders';
+import { createSuccessRule, describeSuccessRule, getSuccessRuleProblem, JSON_PATH_OPERATOR_LABELS, SUCCESS_RULE_LABELS } from '../utils/successRules';
+import { EXTRACTOR_KIND_LABELS, getExtractorProblem } from '../utils/responseExtractors';
+import { deriveVariablesTemplate, formatTypeRef, parseIntrospection, parseOperations, selectOperation } from '../utils/graphql';
+import { SlidersHorizontal, Plus, X, AlertCircle, Check, ArrowRight, Braces, ListTree, Share2, Upload, ShieldCheck, Download } from 'lucide-react';
+
+interface Props {
+  config: ApiConfig;
+  onApply: (config: ApiConfig, renames: PathRename[]) => void;
+  onContinue: () => void;
+}
+
+interface HeaderRow {
+  key: string;
+  value: string;
+}
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// RFC 7230 token characters
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+const toHeaderRows = (headers: Record<string, string>): HeaderRow[] =>
+  Object.entries(headers || {}).map(([key, value]) => ({ key, value }));
+
+const ConfigEditor: React.FC<Props> = ({ config, onApply, onContinue }) => {
+  const [method, setMethod] = useState(config.method);
+  const [url, setUrl] = useState(config.url);
+  const [headerRows, setHeaderRows] = useState<HeaderRow[]>(toHeaderRows(config.headers));
+  const [body, setBody] = useState<Record<string, any>>(config.bodyTemplate || {});
+  const [renames, setRenames] = useState<PathRename[]>([]);
+  const [bodyMode, setBodyMode] = useState<'tree' | 'raw'>('tree');
+  const [rawBody, setRawBody] = useState('');
+  const [rawBodyError, setRawBodyError] = useState<string | null>(null);
+  const [queryOptions, setQueryOptions] = useState<QueryOptions | undefined>(config.query);
+  const [sendBodyWithDelete, setSendBodyWithDelete] = useState(!!config.sendBodyWithDelete);
+  const [bodyEncoding, setBodyEncoding] = useState<BodyEncoding>(config.bodyEncoding || 'json');
+  const [xmlOptions, setXmlOptions] = useState<XmlOptions | undefined>(config.xml);
+  const [graphql, setGraphql] = useState<GraphQLConfig | undefined>(config.graphql);
+  const [graphqlError, setGraphqlError] = useState<string | null>(null);
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [successRules, setSuccessRules] = useState<SuccessRule[]>(config.successRules || []);
+  const [extractors, setExtractors] = useState<ResponseExtractor[]>(config.extractors || []);
+  const schemaInputRef = useRef<HTMLInputElement>(null);
+
+  // Reset the draft whenever a new config is parsed or applied
+  useEffect(() => {
+    setMethod(config.method);
+    setUrl(config.url);
+    setHeaderRows(toHeaderRows(config.headers));
+    setBody(config.bodyTemplate || {});
+    setRenames([]);
+    setRawBodyError(null);
+    setQueryOptions(config.query);
+    setSendBodyWithDelete(!!config.sendBodyWithDelete);
+    setBodyEncoding(config.bodyEncoding || 'json');
+    setXmlOptions(config.xml);
+    setGraphql(config.graphql);
+    setGraphqlError(null);
+    setSchemaError(null);
+    setSuccessRules(config.successRules || []);
+    setExtractors(config.extractors || []);
+  }, [config]);
+
+  const errors = useMemo(() => {
+    const list: string[] = [];
+
+    if (!url.trim()) {
+      list.push('URL is required.');
+    } else {
+      try {
+        const parsed = new URL(fillPlaceholdersForValidation(url.trim()));
+        if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') list.push('URL must use http or https.');
+      } catch {
+        list.push('URL is not a valid absolute URL.');
+      }
+    }
+
+    const seen = new Set<string>();
+    headerRows.forEach((row, idx) => {
+      const name = row.key.trim();
+      if (!name) {
+        if (row.value.trim()) list.push(`Header #${idx + 1} has a value but no name.`);
+        return;
+      }
+      if (!HEADER_NAME_PATTERN.test(name)) list.push(`Header "${name}" contains invalid characters.`);
+      if (seen.has(name.toLowerCase())) list.push(`Header "${name}" is defined more than once.`);
+      seen.add(name.toLowerCase());
+    });
+
+    if (bodyMode === 'raw' && rawBodyError) list.push(`Body: ${rawBodyError}`);
+    if (graphql && graphqlError) list.push(`GraphQL: ${graphqlError}`);
+    if (!graphql && bodyEncoding === 'xml' && xmlOptions && !/^[A-Za-z_][\w.:-]*$/.test(xmlOptions.rootElement.trim())) {
+      list.push('XML root element must be a valid element name.');
+    }
+    successRules.forEach((rule, idx) => {
+      const problem = getSuccessRuleProblem(rule);
+      if (problem) list.push(`Success rule #${idx + 1}: ${problem}`);
+    });
+    const columns = new Set<string>();
+    extractors.forEach((extractor, idx) => {
+      const problem = getExtractorProblem(extractor);
+      if (problem) list.push(`Extractor #${idx + 1}: ${problem}`);
+      const column = extractor.column.trim();
+      if (column && columns.has(column)) list.push(`Extractor column "${column}" is used more than once.`);
+      columns.add(column);
+    });
+    return list;
+  }, [url, headerRows, bodyMode, rawBodyError, bodyEncoding, xmlOptions, graphql, graphqlError, successRules, extractors]);
+
+  const draft: ApiConfig = useMemo(() => ({
+    ...config,
+    method,
+    url: url.trim(),
+    headers: Object.fromEntries(headerRows.filter(r => r.key.trim()).map(r => [r.key.trim(), r.value])),
+    bodyTemplate: body,
+    query: queryOptions,
+    sendBodyWithDelete: method.toUpperCase() === 'DELETE' && sendBodyWithDelete ? true : undefined,
+    bodyEncoding: bodyEncoding === 'json' ? undefined : bodyEncoding,
+    xml: bodyEncoding === 'xml' ? xmlOptions : undefined,
+    graphql,
+    successRules: successRules.length > 0 ? successRules : undefined,
+    extractors: extractors.length > 0 ? extractors : undefined,
+  }), [config, method, url, headerRows, body, queryOptions, sendBodyWithDelete, bodyEncoding, xmlOptions, graphql, successRules, extractors]);
+
+  const hasBody = methodSendsBody(draft);
+  const currentQuery = queryOptions || DEFAULT_QUERY_OPTIONS;
+  const currentXml = xmlOptions || DEFAULT_XML_OPTIONS;
+
+  const placeholders = useMemo(() => getUrlPlaceholders(url), [url]);
+  const graphqlOperations = useMemo(() => {
+    try {
+      return graphql ? parseOperations(graphql.query) : [];
+    } catch {
+      return [];
+    }
+  }, [graphql?.query]);
+  const graphqlVariables = useMemo(() => {
+    try {
+      return graphql ? selectOperation(graphqlOperations, graphql.operationName).variables : [];
+    } catch {
+      return [];
+    }
+  }, [graphql, graphqlOperations]);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(config);
+  const isValid = errors.length === 0;
+
+  const handleBodyChange = (value: Record<string, any>, rename?: PathRename) => {
+    setBody(value);
+    if (rename) setRenames(prev => [...prev, rename]);
+  };
+
+  const switchBodyMode = (mode: 'tree' | 'raw') => {
+    if (mode === 'raw') {
+      setRawBody(JSON.stringify(body, null, 2));
+      setRawBodyError(null);
+    }
+    setBodyMode(mode);
+  };
+
+  const handleRawBodyChange = (text: string) => {
+    setRawBody(text);
+    try {
+      const parsed = text.trim() ? JSON.parse(text) : {};
+      if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        setRawBodyError('The body must be a JSON object.');
+        return;
+      }
+      setRawBodyError(null);
+      setBody(parsed);
+    } catch (e: any) {
+      setRawBodyError(e.message);
+    }
+  };
+
+  const updateHeaderRow = (index: number, updates: Partial<HeaderRow>) => {
+    setHeaderRows(prev => prev.map((row, i) => i === index ? { ...row, ...updates } : row));
+  };
+
+  const updateExtractor = (index: number, updates: Partial<ResponseExtractor>) => {
+    setExtractors(prev => prev.map((extractor, i) => i === index ? { ...extractor, ...updates } : extractor));
+  };
+
+  const updateSuccessRule = (index: number, updates: Partial<SuccessRule>) => {
+    setSuccessRules(prev => prev.map((rule, i) => i === index ? { ...rule, ...updates } : rule));
+  };
+
+  // Keeps an explicit Content-Type header in line with the chosen encoding
+  const changeBodyEncoding = (encoding: BodyEncoding) => {
+    setBodyEncoding(encoding);
+    if (encoding === 'xml' && !xmlOptions) setXmlOptions(DEFAULT_XML_OPTIONS);
+    const contentType = BODY_CONTENT_TYPES[encoding];
+    setHeaderRows(prev => contentType
+      ? prev.map(row => row.key.trim().toLowerCase() === 'content-type' ? { ...row, value: contentType } : row)
+      : prev.filter(row => row.key.trim().toLowerCase() !== 'content-type'));
+  };
+
+  // Re-derives the variables template whenever the document, operation or schema changes
+  const updateGraphQL = (next: GraphQLConfig) => {
+    setGraphql(next);
+    try {
+      const derived = deriveVariablesTemplate(next, body);
+      setBody(derived);
+      if (bodyMode === 'raw') setRawBody(JSON.stringify(derived, null, 2));
+      setGraphqlError(null);
+    } catch (e: any) {
+      setGraphqlError(e.message);
+    }
+  };
+
+  const toggleGraphQL = () => {
+    if (graphql) {
+      setGraphql(undefined);
+      setGraphqlError(null);
+      setSchemaError(null);
+    } else {
+      updateGraphQL({ query: '' });
+    }
+  };
+
+  const handleSchemaFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !graphql) return;
+    try {
+      const inputTypes = parseIntrospection(JSON.parse(await file.text()));
+      setSchemaError(null);
+      updateGraphQL({ ...graphql, inputTypes });
+    } catch (err: any) {
+      setSchemaError(`${file.name}: ${err.message}`);
+    }
+  };
+
+  const queryStyleSelects = (
+    <>
+      <label className="flex items-center gap-1">
+        Arrays
+        <select
+          value={currentQuery.arrayStyle}
+          onChange={(e) => setQueryOptions({ ...currentQuery, arrayStyle: e.target.value as QueryArrayStyle })}
+          className="p-1 border border-sky-200 rounded bg-white font-mono"
+        >
+          <option value="repeat">a=1&amp;a=2</option>
+          <option value="comma">a=1,2</option>
+          <option value="bracket">a[]=1&amp;a[]=2</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        Objects
+        <select
+          value={currentQuery.objectStyle}
+          onChange={(e) => setQueryOptions({ ...currentQuery, objectStyle: e.target.value as QueryObjectStyle })}
+          className="p-1 border border-sky-200 rounded bg-white font-mono"
+        >
+          <option value="dot">a.b=1</option>
+          <option value="bracket">a[b]=1</option>
+        </select>
+      </label>
+    </>
+  );
+
+  const apply = () => {
+    if (!isValid) return;
+    onApply(draft, renames);
+    setRenames([]);
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex items-center gap-3">
+          <div className="p-2 bg-indigo-100 rounded-lg text-indigo-600">
+            <SlidersHorizontal size={24} />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-slate-800">Request Editor</h2>
+            <p className="text-slate-500 text-sm">Adjust the parsed request. Existing field mappings follow renamed keys.</p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Method & URL */}
+          <div className="flex gap-2">
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value)}
+              className="w-32 text-sm font-bold p-2 border border-slate-300 rounded-lg bg-white outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {METHODS.map(m => <option key={m} value={m}>{m}</option>)}
+              {!METHODS.includes(method) && <option value={method}>{method}</option>}
+            </select>
+            <input
+              type="text"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://api.example.com/products/{sku}"
+              className="flex-1 text-sm font-mono p-2 border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          {placeholders.length > 0 ? (
+            <p className="-mt-4 text-xs text-slate-500">
+              Path parameters: {placeholders.map(p => <span key={p} className="font-mono text-violet-700 bg-violet-50 px-1 rounded mr-1">{`{${p}}`}</span>)}
+              filled per row from their mappings.
+            </p>
+          ) : (
+            <p className="-mt-4 text-xs text-slate-400">Use {'{name}'} in the URL for values that change per row.</p>
+          )}
+
+          {/* Query string options for methods without a body */}
+          {(!hasBody || method.toUpperCase() === 'DELETE') && (
+            <div className="bg-sky-50 border border-sky-100 rounded-lg p-3 text-xs text-sky-900 space-y-2">
+              {method.toUpperCase() === 'DELETE' && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={sendBodyWithDelete} onChange={(e) => setSendBodyWithDelete(e.target.checked)} />
+                  Send a body with DELETE (some APIs reject it)
+                </label>
+              )}
+              {!hasBody && (
+                <div className="flex flex-wrap items-center gap-3">
+                  <span>{method.toUpperCase()} has no body; mapped fields are sent in the query string.</span>
+                  {queryStyleSelects}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Headers */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs uppercase tracking-wider font-bold text-slate-500">Headers</h3>
+              <button
+                onClick={() => setHeaderRows(prev => [...prev, { key: '', value: '' }])}
+                className="flex items-center gap-1 text-xs font-medium bg-indigo-50 text-indigo-700 px-3 py-1 rounded hover:bg-indigo-100 transition-colors"
+              >
+                <Plus size={12} /> Add Header
+              </button>
+            </div>
+            <div className="space-y-1.5">
+              {headerRows.map((row, idx) => (
+                <div key={idx} className="flex gap-2 items-center">
+                  <input
+                    type="text"
+                    value={row.key}
+                    onChange={(e) => updateHeaderRow(idx, { key: e.target.value })}
+                    placeholder="Header-Name"
+                    className="w-1/3 text-xs font-mono p-1.5 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-indigo-500"
+                  />
+                  <input
+                    type="text"
+                    value={row.value}
+                    onChange={(e) => updateHeaderRow(idx, { value: e.target.value })}
+                    placeholder="value"
+                    className="flex-1 text-xs font-mono p-1.5 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-indigo-500"
+                  />
+                  <button onClick={() => setHeaderRows(prev => prev.filter((_, i) => i !== idx))} className="text-slate-300 hover:text-red-500 p-1">
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+              {headerRows.length === 0 && <div className="text-xs text-slate-400 italic">No headers.</div>}
+            </div>
+          </div>
+
+          {/* Body */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center gap-3">
+                <h3 className="text-xs uppercase tracking-wider font-bold text-slate-500">{graphql ? 'Variables' : 'Body Template'}</h3>
+                <button
+                  onClick={toggleGraphQL}
+                  className={`flex items-center gap-1 text-xs px-2 py-1 rounded border transition-colors ${graphql ? 'bg-pink-50 border-pink-200 text-pink-700 font-medium' : 'bg-white border-slate-300 text-slate-500 hover:bg-slate-50'}`}
+                  title="Send a GraphQL operation; the template then holds its variables"
+                >
+                  <Share2 size={12} /> GraphQL
+                </button>
+                {hasBody && !graphql && (
+                  <select
+                    value={bodyEncoding}
+                    onChange={(e) => changeBodyEncoding(e.target.value as BodyEncoding)}
+                    className="text-xs p-1 border border-slate-300 rounded bg-white outline-none focus:ring-1 focus:ring-indigo-500"
+                    title="How the mapped body is encoded"
+                  >
+                    {(Object.keys(BODY_ENCODING_LABELS) as BodyEncoding[]).map(enc => (
+                      <option key={enc} value={enc}>{BODY_ENCODING_LABELS[enc]}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <div className="flex bg-slate-100 rounded-lg p-0.5 text-xs">
+                <button
+                  onClick={() => switchBodyMode('tree')}
+                  disabled={bodyMode === 'raw' && !!rawBodyError}
+                  className={`flex items-center gap-1 px-3 py-1 rounded-md transition-colors disabled:opacity-50 ${bodyMode === 'tree' ? 'bg-white shadow-sm text-indigo-700 font-medium' : 'text-slate-500'}`}
+                >
+                  <ListTree size={12} /> Tree
+                </button>
+                <button
+                  onClick={() => switchBodyMode('raw')}
+                  className={`flex items-center gap-1 px-3 py-1 rounded-md transition-colors ${bodyMode === 'raw' ? 'bg-white shadow-sm text-indigo-700 font-medium' : 'text-slate-500'}`}
+                >
+                  <Braces size={12} /> JSON
+                </button>
+              </div>
+            </div>
+            {graphql && (
+              <div className="mb-2 bg-pink-50/50 border border-pink-100 rounded-lg p-3 text-xs text-slate-700 space-y-2">
+                <textarea
+                  value={graphql.query}
+                  onChange={(e) => updateGraphQL({ ...graphql, query: e.target.value })}
+                  placeholder={'mutation CreateProduct($input: ProductInput!) {\n  createProduct(input: $input) { id }\n}'}
+                  className="w-full h-40 font-mono text-xs p-2 border border-pink-200 rounded bg-white outline-none resize-y focus:ring-1 focus:ring-pink-400"
+                  spellCheck={false}
+                />
+                <div className="flex flex-wrap items-center gap-3">
+                  {graphqlOperations.filter(op => op.name).length > 1 && (
+                    <label className="flex items-center gap-1">
+                      Operation
+                      <select
+                        value={graphql.operationName || ''}
+                        onChange={(e) => updateGraphQL({ ...graphql, operationName: e.target.value || undefined })}
+                        className="p-1 border border-pink-200 rounded bg-white font-mono"
+                      >
+                        <option value="">-- choose --</option>
+                        {graphqlOperations.filter(op => op.name).map(op => <option key={op.name} value={op.name}>{op.type} {op.name}</option>)}
+                      </select>
+                    </label>
+                  )}
+                  <input type="file" ref={schemaInputRef} accept=".json,application/json" className="hidden" onChange={handleSchemaFile} />
+                  {graphql.inputTypes ? (
+                    <span className="flex items-center gap-1 text-pink-800">
+                      Schema: {Object.keys(graphql.inputTypes).filter(name => graphql.inputTypes![name].kind === 'INPUT_OBJECT').length} input types
+                      <button onClick={() => updateGraphQL({ ...graphql, inputTypes: undefined })} className="p-0.5 text-slate-400 hover:text-red-500" title="Remove the schema"><X size={12} /></button>
+                    </span>
+                  ) : (
+                    <button onClick={() => schemaInputRef.current?.click()} className="flex items-center gap-1 px-2 py-1 rounded border border-pink-200 bg-white hover:bg-pink-50" title="Load an introspection result to expand input object variables">
+                      <Upload size={12} /> Load introspection JSON
+                    </button>
+                  )}
+                  {graphqlVariables.length > 0 && (
+                    <span className="text-slate-500">
+                      Variables: {graphqlVariables.map(v => <span key={v.name} className="font-mono text-pink-700 bg-white px-1 rounded mr-1">${v.name}: {formatTypeRef(v.type)}</span>)}
+                    </span>
+                  )}
+                </div>
+                {schemaError && <div className="text-red-600">{schemaError}</div>}
+                <div className="text-slate-500">Responses with an <span className="font-mono">errors</span> array count as failed rows, even with status 200.</div>
+              </div>
+            )}
+            {hasBody && !graphql && (bodyEncoding === 'form' || bodyEncoding === 'multipart') && (
+              <div className="mb-2 bg-sky-50 border border-sky-100 rounded-lg p-2 text-xs text-sky-900 flex flex-wrap items-center gap-3">
+                <span>Nested fields are flattened into form fields:</span>
+                {queryStyleSelects}
+              </div>
+            )}
+            {hasBody && !graphql && bodyEncoding === 'xml' && (
+              <div className="mb-2 bg-sky-50 border border-sky-100 rounded-lg p-2 text-xs text-sky-900 flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-1">
+                  Root element
+                  <input
+                    type="text"
+                    value={currentXml.rootElement}
+                    onChange={(e) => setXmlOptions({ ...currentXml, rootElement: e.target.value })}
+                    className="w-36 p-1 border border-sky-200 rounded bg-white font-mono"
+                  />
+                </label>
+                <label className="flex items-center gap-1">
+                  Attribute prefix
+                  <input
+                    type="text"
+                    value={currentXml.attributePrefix}
+                    onChange={(e) => setXmlOptions({ ...currentXml, attributePrefix: e.target.value })}
+                    className="w-12 p-1 border border-sky-200 rounded bg-white font-mono"
+                  />
+                </label>
+                <span className="text-sky-700">
+                  Keys starting with <span className="font-mono">{currentXml.attributePrefix || '…'}</span> become attributes; <span className="font-mono">#text</span> sets element text.
+                </span>
+              </div>
+            )}
+            <div className="border border-slate-200 rounded-lg p-3 bg-slate-50/50 max-h-96 overflow-auto">
+              {bodyMode === 'tree' ? (
+                <JsonTreeEditor value={body} onChange={handleBodyChange} />
+              ) : (
+                <textarea
+                  value={rawBody}
+                  onChange={(e) => handleRawBodyChange(e.target.value)}
+                  className={`w-full h-64 font-mono text-xs bg-slate-900 text-slate-50 p-3 rounded outline-none resize-none focus:ring-2 ${rawBodyError ? 'focus:ring-red-500' : 'focus:ring-indigo-500'}`}
+                  spellCheck={false}
+                />
+              )}
+            </div>
+          </div>
+
+          {/* Success Criteria */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs uppercase tracking-wider font-bold text-slate-500 flex items-center gap-1.5">
+                <ShieldCheck size={14} /> Success Criteria
+              </h3>
+              <button
+                onClick={() => setSuccessRules(prev => [...prev, createSuccessRule('json_path')])}
+                className="flex items-center gap-1 text-xs font-medium bg-indigo-50 text-indigo-700 px-3 py-1 rounded hover:bg-indigo-100 transition-colors"
+              >
+                <Plus size={12} /> Add Rule
+              </button>
+            </div>
+            <div className="space-y-1.5">
+              {successRules.map((rule, idx) => (
+                <div key={idx} className="flex gap-2 items-center text-xs" title={describeSuccessRule(rule)}>
+                  <select
+                    value={rule.kind}
+                    onChange={(e) => setSuccessRules(prev => prev.map((r, i) => i === idx ? createSuccessRule(e.target.value as SuccessRuleKind) : r))}
+                    className="w-32 p-1.5 border border-slate-200 rounded bg-white outline-none focus:ring-1 focus:ring-indigo-500"
+                  >
+                    {(Object.keys(SUCCESS_RULE_LABELS) as SuccessRuleKind[]).map(kind => (
+                      <option key={kind} value={kind}>{SUCCESS_RULE_LABELS[kind]}</option>
+                    ))}
+                  </select>
+                  {rule.kind === 'status' && (
+                    <input
+                      type="text"
+                      value={rule.statusCodes || ''}
+                      onChange={(e) => updateSuccessRule(idx, { statusCodes: e.target.value })}
+                      placeholder="200-299, 304"
+                      className="flex-1 font-mono p-1.5 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-indigo-500"
+                    />
+                  )}
+                  {rule.kind === 'json_path' && (
+                    <>
+                      <input
+                        type="text"
+                        value={rule.path || ''}
+                        onChange={(e) => updateSuccessRule(idx, { path: e.target.value })}
+                        placeholder="$.data.id"
+                        className="flex-1 font-mono p-1.5 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-indigo-500"
+                      />
+                      <select
+                        value={rule.operator || 'exists'}
+                        onChange={(e) => updateSuccessRule(idx, { operator: e.target.value as JsonPathOperator })}
+                        className="p-1.5 border border-slate-200 rounded bg-white font-mono outline-none focus:ring-1 focus:ring-indigo-500"
+                      >
+                        {(Object.keys(JSON_PATH_OPERATOR_LABELS) as JsonPathOperator[]).map(op => (
+                          <option key={op} value={op}>{JSON_PATH_OPERATOR_LABELS[op]}</option>
+                        ))}
+                      </select>
+                      {(rule.operator === 'equals' || rule.operator === 'not_equals') && (
+                        <input
+                          type="text"
+                          value={rule.expected || ''}
+                          onChange={(e) => updateSuccessRule(idx, { expected: e.target.value })}
+                          placeholder='true, 1 or "text"'
+                          className="w-40 font-mono p-1.5 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-indigo-500"
+                        />
+                      )}
+                    </>
+                  )}
+                  {rule.kind === 'body_regex' && (
+                    <input
+                      type="text"
+                      value={rule.pattern || ''}
+                      onChange={(e) => updateSuccessRule(idx, { pattern: e.target.value })}
+                      placeholder={'"status":\\s*"ok"'}
+                      className="flex-1 font-mono p-1.5 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-indigo-500"
+                    />
+                  )}
+                  {rule.kind === 'header' && (
+                    <>
+                      <input
+                        type="text"
+                        value={rule.header || ''}
+                        onChange={(e) => updateSuccessRule(idx, { header: e.target.value })}
+                        placeholder="X-Request-Id"
+                        className="w-1/3 font-mono p-1.5 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-indigo-500"
+                      />
+                      <input
+                        type="text"
+                        value={rule.pattern || ''}
+                        onChange={(e) => updateSuccessRule(idx, { pattern: e.target.value })}
+                        placeholder="value pattern (optional)"
+                        className="flex-1 font-mono p-1.5 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-indigo-500"
+                      />
+                    </>
+                  )}
+                  <button onClick={() => setSuccessRules(prev => prev.filter((_, i) => i !== idx))} className="text-slate-300 hover:text-red-500 p-1">
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+              <div className="text-xs text-slate-400">
+                {successRules.length === 0
+                  ? 'Any 2xx response counts as success.'
+                  : `Every rule must pass.${successRules.some(rule => rule.kind === 'status') ? '' : ' A 2xx status is still required.'} Headers are only visible when the API exposes them to CORS.`}
+              </div>
+            </div>
+          </div>
+
+          {/* Response Extractors */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs uppercase tracking-wider font-bold text-slate-500 flex items-center gap-1.5">
+                <Download size={14} /> Response Extractors
+              </h3>
+              <button
+                onClick={() => setExtractors(prev => [...prev, { column: '', kind: 'json_path', expression: '$.id' }])}
+                className="flex items-center gap-1 text-xs font-medium bg-indigo-50 text-indigo-700 px-3 py-1 rounded hover:bg-indigo-100 transition-colors"
+              >
+                <Plus size={12} /> Add Extractor
+              </button>
+            </div>
+            <div className="space-y-1.5">
+              {extractors.map((extractor, idx) => (
+                <div key={idx} className="flex gap-2 items-center text-xs">
+                  <select
+                    value={extractor.kind}
+                    onChange={(e) => updateExtractor(idx, { kind: e.target.value as ExtractorKind })}
+                    className="w-32 p-1.5 border border-slate-200 rounded bg-white outline-none focus:ring-1 focus:ring-indigo-500"
+                  >
+                    {(Object.keys(EXTRACTOR_KIND_LABELS) as ExtractorKind[]).map(kind => (
+                      <option key={kind} value={kind}>{EXTRACTOR_KIND_LABELS[kind]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={extractor.expression}
+                    onChange={(e) => updateExtractor(idx, { expression: e.target.value })}
+                    placeholder={extractor.kind === 'json_path' ? '$.data.id' : '"id":\\s*"([^"]+)"'}
+                    className="flex-1 font-mono p-1.5 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-indigo-500"
+                  />
+                  <ArrowRight size={14} className="text-slate-400 shrink-0" />
+                  <input
+                    type="text"
+                    value={extractor.column}
+                    onChange={(e) => updateExtractor(idx, { column: e.target.value })}
+                    placeholder="Column, e.g. created_id"
+                    className="w-44 font-mono p-1.5 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-indigo-500"
+                  />
+                  <button onClick={() => setExtractors(prev => prev.filter((_, i) => i !== idx))} className="text-slate-300 hover:text-red-500 p-1">
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+              <div className="text-xs text-slate-400">
+                {extractors.length === 0
+                  ? 'Copy values such as created IDs from each response into new columns of the data.'
+                  : 'Values are written into the row after each response; regexes take their first group. The columns appear in the data grid.'}
+              </div>
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 text-red-700 p-3 rounded-lg text-sm space-y-1">
+              {errors.map((err, idx) => (
+                <div key={idx} className="flex items-start gap-2">
+                  <AlertCircle size={14} className="mt-0.5 shrink-0" />
+                  <span>{err}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={apply}
+              disabled={!isDirty || !isValid}
+              className="flex items-center gap-2 px-4 py-2.5 rounded-lg font-medium bg-white border border-slate-300 text-slate-700 hover:bg-slate-50 transition-colors disabled:opacity-50"
+            >
+              <Check size={18} /> Apply Changes
+            </button>
+            <button
+              onClick={() => { if (isDirty) apply(); onContinue(); }}
+              disabled={!isValid}
+              className="flex items-center gap-2 px-6 py-2.5 rounded-lg font-medium bg-indigo-600 hover:bg-indigo-700 text-white shadow-lg shadow-indigo-500/20 transition-all disabled:opacity-50"
+            >
+              Continue to Mapping <ArrowRight size={18} />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConfigEditor;
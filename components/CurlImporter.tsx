@@ -1,25 +1,58 @@
 import React, { useState } from 'react';
 import { parseCurlWithGemini } from '../services/aiService';
+import { parseCurl, buildCurlCommand } from '../utils/curlParser';
+import { SpecSource } from '../utils/specImporters';
 import { ApiConfig } from '../types';
-import { Terminal, ArrowRight, Loader2, AlertCircle } from 'lucide-react';
+import SpecImporter from './SpecImporter';
+import { Terminal, ArrowRight, Loader2, AlertCircle, Sparkles } from 'lucide-react';
+
+type ImportSource = 'curl' | SpecSource;
+
+const SOURCE_TABS: { id: ImportSource, label: string }[] = [
+  { id: 'curl', label: 'cURL' },
+  { id: 'postman', label: 'Postman' },
+  { id: 'har', label: 'HAR' },
+  { id: 'openapi', label: 'OpenAPI' },
+];
 
 interface Props {
   initialCurl?: string;
   onConfigParsed: (config: ApiConfig, rawCurl: string) => void;
   apiKey?: string;
+  onRequestApiKey?: () => void;
 }
 
-const CurlImporter: React.FC<Props> = ({ initialCurl = '', onConfigParsed, apiKey }) => {
+const CurlImporter: React.FC<Props> = ({ initialCurl = '', onConfigParsed, apiKey, onRequestApiKey }) => {
   const [curlText, setCurlText] = useState(initialCurl);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [useAiFallback, setUseAiFallback] = useState(!!apiKey);
+  const [source, setSource] = useState<ImportSource>('curl');
+
+  // Imported requests are turned into an equivalent cURL so the textarea stays the source of truth
+  const handleSpecSelected = (config: ApiConfig) => {
+    const curl = buildCurlCommand(config);
+    setCurlText(curl);
+    onConfigParsed(config, curl);
+  };
 
   const handleParse = async () => {
     if (!curlText.trim()) return;
     setLoading(true);
     setError(null);
     try {
-      const config = await parseCurlWithGemini(curlText, apiKey);
+      let config: ApiConfig;
+      try {
+        config = parseCurl(curlText);
+      } catch (localError: any) {
+        // Gemini is only consulted when the local parser gives up
+        if (!useAiFallback) throw localError;
+        if (!apiKey) {
+          onRequestApiKey?.();
+          throw new Error(`${localError.message} Add a Gemini API key to use the AI fallback.`);
+        }
+        config = await parseCurlWithGemini(curlText, apiKey);
+      }
       onConfigParsed(config, curlText);
     } catch (e: any) {
       setError(e.message || "Failed to parse cURL.");
@@ -42,10 +75,31 @@ const CurlImporter: React.FC<Props> = ({ initialCurl = '', onConfigParsed, apiKe
           </div>
           <div>
             <h2 className="text-xl font-semibold text-slate-800">API Configuration</h2>
-            <p className="text-slate-500 text-sm">Paste a cURL command to automatically extract endpoint and headers.</p>
+            <p className="text-slate-500 text-sm">Paste a cURL command or import a request from Postman, HAR or OpenAPI.</p>
           </div>
         </div>
         
+        <div className="px-6 pt-4 flex gap-1 border-b border-slate-100">
+          {SOURCE_TABS.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setSource(tab.id)}
+              className={`px-4 py-2 text-sm font-medium rounded-t-lg border-b-2 -mb-px transition-colors ${
+                source === tab.id
+                  ? 'border-blue-600 text-blue-700'
+                  : 'border-transparent text-slate-500 hover:text-slate-800'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {source !== 'curl' ? (
+        <div className="p-6">
+          <SpecImporter key={source} source={source} onSelect={handleSpecSelected} />
+        </div>
+        ) : (
         <div className="p-6 space-y-4">
           <div className="relative">
             <textarea
@@ -63,7 +117,20 @@ const CurlImporter: React.FC<Props> = ({ initialCurl = '', onConfigParsed, apiKe
             )}
           </div>
 
-          <div className="flex justify-end">
+          <div className="flex items-center justify-between gap-4">
+            <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={useAiFallback}
+                onChange={(e) => {
+                  setUseAiFallback(e.target.checked);
+                  if (e.target.checked && !apiKey) onRequestApiKey?.();
+                }}
+                className="rounded border-slate-300 text-blue-600 focus:ring-blue-500 w-4 h-4"
+              />
+              <Sparkles size={14} className={useAiFallback ? 'text-blue-600' : 'text-slate-400'} />
+              Use Gemini when the local parser cannot handle the command
+            </label>
             <button
               onClick={handleParse}
               disabled={loading || !curlText.trim()}
@@ -87,6 +154,7 @@ const CurlImporter: React.FC<Props> = ({ initialCurl = '', onConfigParsed, apiKe
             </button>
           </div>
         </div>
+        )}
       </div>
     </div>
   );
@@ -1,44 +1,116 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { ApiConfig, CsvRow, Mapping, TransformationConfig, DataType, InternalFieldMapping } from '../types';
-import { flattenObjectKeys, constructPayload } from '../utils/dataUtils';
-import { Table, Database, ArrowRight, ArrowLeft, Settings2, Trash2, FileSpreadsheet, Plus, Maximize2, X, Minimize2, HelpCircle, Wand2, Split, Eye, FileJson, Hash, Type, GripVertical, List, Braces } from 'lucide-react';
-import { read, utils } from 'xlsx';
+import React, { useState, useRef, useEffect, useMemo, useDeferredValue } from 'react';
+import { ApiConfig, CsvRow, FieldDiagnostic, Mapping, TransformationConfig, DataType, InternalFieldMapping, ValidationRules, CastFailurePolicy, EmptyValuePolicy, MappingTarget } from '../types';
+import { buildMappingsFromTemplate, formatDiagnostic, NULL_CELL_TOKEN, applyPastedGrid, getParentPath, collapseMappings, canExpandMapping, expandMapping } from '../utils/dataUtils';
+import { Table, Database, ArrowRight, ArrowLeft, Settings2, Trash2, FileSpreadsheet, Plus, Maximize2, X, Minimize2, HelpCircle, Wand2, Split, Eye, FileJson, Hash, Type, GripVertical, List, Braces, AlertTriangle, ClipboardPaste, ShieldCheck, Paperclip, FolderOpen, Download } from 'lucide-react';
+import { read, WorkBook } from 'xlsx';
+import { parseCsvFile, parseCsvText, parseClipboardGrid, isDelimitedTextFile, CsvIssue } from '../utils/csvParser';
+import { parseJsonData, isJsonFile, looksLikeJson } from '../utils/jsonImport';
+import { countValidationRules, getPatternError } from '../utils/validation';
+import { buildRequest, describeRequestFailure, syncPathMappings } from '../utils/requestBuilder';
+import { previewBody } from '../utils/bodyEncoders';
+import { indexFiles, mergeFiles, formatBytes } from '../utils/fileAttachments';
+import { collectHeaders, downloadRows, ExportFormat } from '../utils/dataExport';
+import ExcelImportDialog from './ExcelImportDialog';
+
+const DELIMITER_LABELS: Record<string, string> = { ',': 'comma', ';': 'semicolon', '\t': 'tab', '|': 'pipe' };
+
+const CAST_POLICY_LABELS: Record<CastFailurePolicy, string> = {
+  fail_row: 'Invalid value: skip row',
+  use_default: 'Invalid value: use default',
+  send_null: 'Invalid value: send null',
+  omit_field: 'Invalid value: omit field',
+};
+
+const EMPTY_POLICY_LABELS: Record<EmptyValuePolicy, string> = {
+  type_default: 'If empty: type default',
+  omit: 'If empty: omit field',
+  null: 'If empty: send null',
+  empty_string: 'If empty: send ""',
+  literal: 'If empty: send value…',
+};
+
+const TARGET_PLACEHOLDERS: Record<MappingTarget, string> = {
+  body: 'e.g. data.items[].id',
+  path: 'URL placeholder, e.g. sku',
+  query: 'Query key, e.g. email',
+  header: 'Header name, e.g. X-Tenant-Id',
+};
+
+interface ImportReport {
+  fileName: string;
+  summary: string;
+  issues: CsvIssue[];
+}
 
 interface Props {
   apiConfig: ApiConfig;
+  stepLabel?: string;         // Set when the row is sent as a chain of requests
+  chainedColumns?: string[];  // Filled by earlier steps' response extractors while the job runs
   initialData?: CsvRow[];
   initialMappings?: Mapping[];
-  onBack: () => void;
+  files: File[];
+  onFilesChange: (files: File[]) => void;
+  onBack: (data: CsvRow[], mappings: Mapping[]) => void;
   onNext: (data: CsvRow[], mappings: Mapping[]) => void;
 }
 
-const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings, onBack, onNext }) => {
+const DataMapper: React.FC<Props> = ({ apiConfig, stepLabel, chainedColumns = [], initialData, initialMappings, files, onFilesChange, onBack, onNext }) => {
   const [parsedRows, setParsedRows] = useState<CsvRow[]>(initialData || []);
   const [csvHeaders, setCsvHeaders] = useState<string[]>(
-    initialData && initialData.length > 0 ? Object.keys(initialData[0]) : []
+    initialData ? collectHeaders(initialData) : []
   );
   
   const [mappings, setMappings] = useState<Mapping[]>(() => {
       if (initialMappings && initialMappings.length > 0) return initialMappings;
-      
-      const flatKeys = flattenObjectKeys(apiConfig.bodyTemplate || {});
-      return flatKeys.map((k, idx) => ({
-          id: `map-${idx}-${Date.now()}`,
-          jsonPath: k.path,
-          dataType: k.type,
-          csvHeader: '',
-          defaultValue: ''
-      }));
+      return syncPathMappings(buildMappingsFromTemplate(apiConfig.bodyTemplate), apiConfig.url);
   });
 
   const [activeTransformKey, setActiveTransformKey] = useState<string | null>(null);
+  const [activeRulesKey, setActiveRulesKey] = useState<string | null>(null);
   const [isExpanded, setIsExpanded] = useState(false);
   const [showPreviewModal, setShowPreviewModal] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ workbook: WorkBook, fileName: string } | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const attachFilesRef = useRef<HTMLInputElement>(null);
+  const attachFolderRef = useRef<HTMLInputElement>(null);
   const tableContainerRef = useRef<HTMLDivElement>(null);
   const modalTableContainerRef = useRef<HTMLDivElement>(null);
 
+  const fileIndex = useMemo(() => indexFiles(files), [files]);
+  const hasFileFields = mappings.some(m => m.dataType === 'file');
+  const attachedBytes = useMemo(() => files.reduce((sum, f) => sum + f.size, 0), [files]);
+
+  // A mapping edit rebuilds every row, so the cell markers follow it in a deferred render
+  const deferredMappings = useDeferredValue(mappings);
+  // Cast failures by row object; editing a cell only rebuilds that row
+  const rowDiagnostics = useMemo(() => new WeakMap<CsvRow, FieldDiagnostic[]>(), [apiConfig, deferredMappings, fileIndex]);
+
+  // Cast failures (including missing files) per grid cell, keyed by "row:column"
+  const cellIssues = useMemo(() => {
+      const issues = new Map<string, string[]>();
+      parsedRows.forEach((row, idx) => {
+          let diagnostics = rowDiagnostics.get(row);
+          if (!diagnostics) {
+              diagnostics = buildRequest(apiConfig, row, deferredMappings, fileIndex).diagnostics;
+              rowDiagnostics.set(row, diagnostics);
+          }
+          diagnostics.forEach(d => {
+              if (!d.csvHeader) return;
+              const key = `${idx}:${d.csvHeader}`;
+              issues.set(key, [...(issues.get(key) || []), formatDiagnostic(d)]);
+          });
+      });
+      return issues;
+  }, [parsedRows, rowDiagnostics]);
+
+  const handleAttachFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const picked: File[] = e.target.files ? Array.from(e.target.files) : [];
+      if (picked.length > 0) onFilesChange(mergeFiles(files, picked));
+      e.target.value = '';
+  };
+
   const autoMapHeaders = (headers: string[]) => {
     if (headers.length === 0) return;
     setMappings(prev => prev.map(m => {
@@ -55,36 +127,119 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
     }));
   };
 
+  const loadRows = (headers: string[], data: CsvRow[]) => {
+      if (data.length === 0) {
+          alert("No data rows found.");
+          return;
+      }
+      setParsedRows(data);
+      setCsvHeaders(headers);
+      autoMapHeaders(headers);
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     try {
+      if (isJsonFile(file.name)) {
+        const result = parseJsonData(await file.text(), file.name);
+        setImportReport({
+            fileName: file.name,
+            summary: result.format === 'ndjson' ? 'NDJSON' : 'JSON',
+            issues: result.issues
+        });
+        loadRows(result.headers, result.data);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+        return;
+      }
+
+      if (isDelimitedTextFile(file.name)) {
+        const result = await parseCsvFile(file);
+        setImportReport({
+            fileName: file.name,
+            summary: `${DELIMITER_LABELS[result.delimiter]}-delimited, ${result.encoding.toUpperCase()}`,
+            issues: result.issues
+        });
+        loadRows(result.headers, result.data);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+        return;
+      }
+
+      setImportReport(null);
       const arrayBuffer = await file.arrayBuffer();
       const workbook = read(arrayBuffer);
-      const firstSheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[firstSheetName];
-      const jsonData = utils.sheet_to_json<CsvRow>(worksheet, { defval: '', raw: false });
-
-      if (jsonData.length > 0) {
-          const headers = Object.keys(jsonData[0]);
-          setParsedRows(jsonData);
-          setCsvHeaders(headers);
-          autoMapHeaders(headers);
-      } else {
+      if (workbook.SheetNames.length === 0) {
           alert("File appears to be empty.");
+      } else {
+          setPendingWorkbook({ workbook, fileName: file.name });
       }
       if (fileInputRef.current) fileInputRef.current.value = '';
-    } catch (error) {
-      console.error("Error reading Excel file:", error);
-      alert("Failed to read the file. Please ensure it is a valid .xlsx or .csv file.");
+    } catch (error: any) {
+      console.error("Error reading file:", error);
+      alert(`Failed to read the file. Please ensure it is a valid .xlsx, .csv or .json file.${error?.message ? `\n\n${error.message}` : ''}`);
+      if (fileInputRef.current) fileInputRef.current.value = '';
     }
   };
 
+  // Imports JSON, NDJSON or spreadsheet cells (tab-separated) from the clipboard, using the first row as headers
+  const handlePasteFromClipboard = async () => {
+    let text = '';
+    try {
+      text = await navigator.clipboard.readText();
+    } catch {
+      alert("Clipboard access was denied. Paste directly into a grid cell instead (Ctrl+V).");
+      return;
+    }
+    if (!text.trim()) {
+      alert("The clipboard is empty.");
+      return;
+    }
+    if (parsedRows.length > 0 && !confirm("Replace the current data with the clipboard content?")) return;
+
+    try {
+      if (looksLikeJson(text)) {
+        const result = parseJsonData(text);
+        setImportReport({ fileName: 'Clipboard', summary: result.format === 'ndjson' ? 'NDJSON' : 'JSON', issues: result.issues });
+        loadRows(result.headers, result.data);
+      } else {
+        const result = parseCsvText(text);
+        setImportReport({ fileName: 'Clipboard', summary: `${DELIMITER_LABELS[result.delimiter]}-delimited`, issues: result.issues });
+        loadRows(result.headers, result.data);
+      }
+    } catch (error: any) {
+      alert(`Failed to read the clipboard content.\n\n${error.message}`);
+    }
+  };
+
+  // Pasting a multi-cell block into a grid cell fills rows and columns from that cell
+  const handleCellPaste = (e: React.ClipboardEvent<HTMLInputElement>, rowIndex: number, colIndex: number) => {
+    const text = e.clipboardData.getData('text/plain');
+    if (!text.includes('\t') && !/\r?\n./.test(text)) return;
+
+    e.preventDefault();
+    const grid = parseClipboardGrid(text);
+    if (grid.length === 0) return;
+    const result = applyPastedGrid(parsedRows, csvHeaders, grid, rowIndex, colIndex);
+    setParsedRows(result.rows);
+    setCsvHeaders(result.headers);
+  };
+
+  const handleWorkbookImport = (headers: string[], data: CsvRow[]) => {
+      loadRows(headers, data);
+      setPendingWorkbook(null);
+  };
+
+  // Downloads the grid, including columns filled by response extractors
+  const exportData = (format: ExportFormat) => {
+      downloadRows(parsedRows, csvHeaders, format, `data-${new Date().toISOString().slice(0, 10)}`);
+  };
+
   const clearData = () => {
     if (parsedRows.length > 0 && confirm("Clear all imported data?")) {
       setParsedRows([]);
       setCsvHeaders([]);
+      setImportReport(null);
       if (fileInputRef.current) fileInputRef.current.value = '';
     }
   };
@@ -107,6 +262,27 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
       setMappings(prev => prev.map(m => m.id === id ? { ...m, ...updates } : m));
   };
 
+  const updateValidation = (id: string, updates: Partial<ValidationRules>) => {
+      setMappings(prev => prev.map(m => {
+          if (m.id !== id) return m;
+          const validation: ValidationRules = { ...m.validation, ...updates };
+          // Drop cleared rules so they don't count as set
+          (Object.keys(validation) as (keyof ValidationRules)[]).forEach(key => {
+              const value = validation[key];
+              if (value === undefined || value === '' || value === false || (Array.isArray(value) && value.length === 0)) delete validation[key];
+          });
+          return { ...m, validation };
+      }));
+  };
+
+  const collapseToParent = (parentPath: string) => {
+      setMappings(prev => collapseMappings(prev, parentPath, apiConfig.bodyTemplate));
+  };
+
+  const expandToFields = (id: string) => {
+      setMappings(prev => expandMapping(prev, id, apiConfig.bodyTemplate));
+  };
+
   const updateTransformation = (id: string, config: TransformationConfig) => {
       setMappings(prev => prev.map(m => 
           m.id === id ? { ...m, transformation: config } : m
@@ -171,7 +347,8 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
                    <div className="flex flex-col items-center justify-center h-full text-slate-400 p-8 text-center">
                        <Database size={32} className="mb-2 opacity-50" />
                        <p className="text-sm">No data found.</p>
-                       <p className="text-xs mt-1">Import a file or add a row manually.</p>
+                       <p className="text-xs mt-1">Import a file, paste from the clipboard or add a row manually.</p>
+                       <p className="text-xs mt-1">Type <span className="font-mono">{NULL_CELL_TOKEN}</span> in a cell to send an explicit null.</p>
                    </div>
                ) : (
                    <table className="min-w-full text-left border-collapse text-xs">
@@ -193,16 +370,21 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
                                    <td className="p-2 bg-white group-hover:bg-indigo-50/50 sticky left-10 z-10 shadow-[1px_0_0_0_rgba(0,0,0,0.05)] border-r border-slate-100 text-center">
                                        <button onClick={() => removeRow(idx)} className="text-slate-300 hover:text-red-500 p-1 rounded transition-colors"><Trash2 size={14} /></button>
                                    </td>
-                                   {csvHeaders.map((h, i) => (
-                                       <td key={i} className="border-l border-slate-100 min-w-[120px] p-0">
-                                           <input
-                                              type="text"
-                                              value={row[h] || ''}
-                                              onChange={(e) => updateRowCell(idx, h, e.target.value)}
-                                              className="w-full h-full p-2 bg-transparent border-none outline-none focus:ring-1 focus:ring-inset focus:ring-indigo-500 focus:bg-white text-slate-700"
-                                           />
-                                       </td>
-                                   ))}
+                                   {csvHeaders.map((h, i) => {
+                                       const issues = cellIssues.get(`${idx}:${h}`);
+                                       const isNull = (row[h] || '').trim() === NULL_CELL_TOKEN;
+                                       return (
+                                           <td key={i} className={`border-l border-slate-100 min-w-[120px] p-0 ${issues ? 'bg-red-50' : ''}`} title={issues?.join('\n')}>
+                                               <input
+                                                  type="text"
+                                                  value={row[h] || ''}
+                                                  onChange={(e) => updateRowCell(idx, h, e.target.value)}
+                                                  onPaste={(e) => handleCellPaste(e, idx, i)}
+                                                  className={`w-full h-full p-2 bg-transparent border-none outline-none focus:ring-1 focus:ring-inset focus:ring-indigo-500 focus:bg-white ${issues ? 'text-red-700 font-medium' : isNull ? 'text-slate-400 italic' : 'text-slate-700'}`}
+                                               />
+                                           </td>
+                                       );
+                                   })}
                                </tr>
                            ))}
                        </tbody>
@@ -223,6 +405,12 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
       
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 flex justify-between items-center text-sm">
         <div className="flex gap-4">
+          {stepLabel && (
+            <div className="flex flex-col">
+              <span className="text-slate-500 text-xs uppercase tracking-wider font-bold">Mapping</span>
+              <span className="font-medium text-indigo-700 whitespace-nowrap">{stepLabel}</span>
+            </div>
+          )}
           <div className="flex flex-col">
             <span className="text-slate-500 text-xs uppercase tracking-wider font-bold">Target URL</span>
             <span className="font-mono text-slate-700 font-medium truncate max-w-md">{apiConfig.url}</span>
@@ -232,7 +420,7 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
             <span className={`font-bold ${apiConfig.method === 'POST' ? 'text-green-600' : 'text-blue-600'}`}>{apiConfig.method}</span>
           </div>
         </div>
-        <button onClick={onBack} className="text-slate-500 hover:text-slate-800 flex items-center gap-1">
+        <button onClick={() => onBack(parsedRows, mappings)} className="text-slate-500 hover:text-slate-800 flex items-center gap-1">
             <Settings2 size={14} /> Edit Config
         </button>
       </div>
@@ -248,12 +436,43 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
                     <div className="flex items-center gap-2">
                       <button onClick={() => setIsExpanded(true)} className="p-1 text-slate-500 hover:text-indigo-600 rounded"><Maximize2 size={16} /></button>
                       {parsedRows.length > 0 && <button onClick={clearData} className="p-1 text-slate-500 hover:text-red-600 rounded"><Trash2 size={16} /></button>}
-                      <input type="file" ref={fileInputRef} accept=".csv, .xlsx, .xls" className="hidden" onChange={handleFileUpload} />
+                      {parsedRows.length > 0 && (
+                        <div className="flex items-center text-xs font-medium bg-white border border-slate-300 rounded text-slate-700 divide-x divide-slate-300" title="Download the data, including extracted columns">
+                          <span className="flex items-center gap-1 px-2 py-1.5 text-slate-500"><Download size={14} /></span>
+                          <button onClick={() => exportData('csv')} className="px-2 py-1.5 hover:bg-slate-50">CSV</button>
+                          <button onClick={() => exportData('xlsx')} className="px-2 py-1.5 hover:bg-slate-50 rounded-r">XLSX</button>
+                        </div>
+                      )}
+                      <input type="file" ref={fileInputRef} accept=".csv, .tsv, .txt, .xlsx, .xls, .json, .ndjson, .jsonl" className="hidden" onChange={handleFileUpload} />
+                      <button onClick={handlePasteFromClipboard} className="flex items-center gap-2 text-xs font-medium bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-3 py-1.5 rounded transition-colors" title="Import JSON, NDJSON or copied spreadsheet cells from the clipboard">
+                        <ClipboardPaste size={14} className="text-indigo-600"/> Paste
+                      </button>
                       <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 text-xs font-medium bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-3 py-1.5 rounded transition-colors">
                         <FileSpreadsheet size={14} className="text-green-600"/> Import
                       </button>
                     </div>
                 </div>
+                {importReport && (
+                    <div className={`px-3 py-2 border-b text-xs ${importReport.issues.length > 0 ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-slate-50 border-slate-100 text-slate-500'}`}>
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="flex items-center gap-1.5 truncate">
+                                {importReport.issues.length > 0 && <AlertTriangle size={12} className="shrink-0" />}
+                                <span className="font-medium truncate">{importReport.fileName}</span>
+                                <span className="opacity-70 whitespace-nowrap">({importReport.summary})</span>
+                                {importReport.issues.length > 0 && <span className="whitespace-nowrap">— {importReport.issues.length} malformed line{importReport.issues.length > 1 ? 's' : ''}</span>}
+                            </span>
+                            <button onClick={() => setImportReport(null)} className="p-0.5 opacity-60 hover:opacity-100"><X size={12} /></button>
+                        </div>
+                        {importReport.issues.length > 0 && (
+                            <ul className="mt-1 max-h-20 overflow-y-auto font-mono text-[10px] space-y-0.5">
+                                {importReport.issues.slice(0, 50).map((issue, idx) => (
+                                    <li key={idx}>Line {issue.line}: {issue.message}</li>
+                                ))}
+                                {importReport.issues.length > 50 && <li>…and {importReport.issues.length - 50} more</li>}
+                            </ul>
+                        )}
+                    </div>
+                )}
                 <div className="flex-1 flex flex-col relative overflow-hidden">
                    {renderDataTable(tableContainerRef)}
                 </div>
@@ -272,10 +491,40 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
                     </button>
                 </div>
 
+                {(hasFileFields || files.length > 0) && (
+                    <div className="px-3 py-2 border-b border-slate-100 bg-amber-50/40 text-xs text-slate-600 space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="flex items-center gap-1.5">
+                                <Paperclip size={12} className="text-amber-600" />
+                                {files.length > 0
+                                    ? <span><span className="font-medium">{files.length} file{files.length > 1 ? 's' : ''}</span> attached ({formatBytes(attachedBytes)})</span>
+                                    : <span>No files attached. File fields name a file per row.</span>}
+                            </span>
+                            <div className="flex items-center gap-1">
+                                <input type="file" ref={attachFilesRef} multiple className="hidden" onChange={handleAttachFiles} />
+                                <input type="file" ref={attachFolderRef} multiple className="hidden" onChange={handleAttachFiles} {...{ webkitdirectory: '' }} />
+                                <button onClick={() => attachFilesRef.current?.click()} className="flex items-center gap-1 px-2 py-1 rounded border border-slate-300 bg-white hover:bg-slate-50">
+                                    <Paperclip size={12} /> Files
+                                </button>
+                                <button onClick={() => attachFolderRef.current?.click()} className="flex items-center gap-1 px-2 py-1 rounded border border-slate-300 bg-white hover:bg-slate-50">
+                                    <FolderOpen size={12} /> Folder
+                                </button>
+                                {files.length > 0 && (
+                                    <button onClick={() => onFilesChange([])} className="p-1 text-slate-400 hover:text-red-600" title="Remove all attached files"><X size={12} /></button>
+                                )}
+                            </div>
+                        </div>
+                        {hasFileFields && apiConfig.bodyEncoding !== 'multipart' && (
+                            <div className="text-red-700">Only multipart requests upload file contents. Switch the body encoding to "Multipart form-data" in the config; the pre-flight check blocks the job until then.</div>
+                        )}
+                    </div>
+                )}
+
                 <div className="flex-1 overflow-y-auto p-4 space-y-3 bg-slate-50/30">
                     {/* List Header */}
                     <div className="flex gap-2 text-[10px] uppercase font-bold text-slate-400 px-2">
-                        <div className="flex-1">JSON Field (Path)</div>
+                        <div className="w-16">Target</div>
+                        <div className="flex-1">Field / Name</div>
                         <div className="w-24">Type</div>
                         <div className="w-1/3">Map To</div>
                         <div className="w-6"></div>
@@ -285,18 +534,37 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
                         const previewValue = parsedRows.length > 0 && map.csvHeader ? parsedRows[0][map.csvHeader] : map.defaultValue;
                         const isArrayKey = map.jsonPath.includes('[]');
                         const isArrayObject = map.dataType === 'array_object';
+                        const target = map.target || 'body';
+                        const parentPath = target === 'body' ? getParentPath(map.jsonPath) : null;
+                        const isExpandable = target === 'body' && canExpandMapping(map, apiConfig.bodyTemplate);
+                        const rules = map.validation || {};
+                        const ruleCount = countValidationRules(map.validation);
+                        const patternError = rules.pattern ? getPatternError(rules.pattern) : null;
 
                         return (
                             <div key={map.id} className="bg-white rounded-lg border border-slate-200 shadow-sm p-3 group hover:border-indigo-300 transition-all">
                                 {/* Top Row: Field Config */}
                                 <div className="flex gap-2 items-start">
+                                    <div className="w-16">
+                                        <select
+                                            value={target}
+                                            onChange={(e) => updateMapping(map.id, { target: e.target.value === 'body' ? undefined : e.target.value as MappingTarget })}
+                                            className={`w-full text-xs p-1.5 border rounded outline-none ${target === 'body' ? 'bg-white border-slate-200 text-slate-600' : 'bg-violet-50 border-violet-200 text-violet-800 font-medium'}`}
+                                            title="Where this value is sent"
+                                        >
+                                            <option value="body">Body</option>
+                                            <option value="path">Path</option>
+                                            <option value="query">Query</option>
+                                            <option value="header">Header</option>
+                                        </select>
+                                    </div>
                                     <div className="flex-1">
                                         <input 
                                             type="text" 
                                             value={map.jsonPath}
                                             onChange={(e) => updateMapping(map.id, { jsonPath: e.target.value })}
                                             className={`w-full text-xs font-mono p-1.5 border rounded focus:ring-1 focus:ring-indigo-500 outline-none ${isArrayKey ? 'text-indigo-600 font-bold border-indigo-100 bg-indigo-50/30' : 'text-slate-700 border-slate-200'}`}
-                                            placeholder="e.g. data.items[].id"
+                                            placeholder={TARGET_PLACEHOLDERS[target]}
                                         />
                                     </div>
 
@@ -315,6 +583,7 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
                                                 <option value="array_string">Array(Str)</option>
                                                 <option value="array_number">Array(Num)</option>
                                                 <option value="array_object">Array(Obj)</option>
+                                                <option value="file">File</option>
                                             </select>
                                         </div>
                                     </div>
@@ -327,13 +596,39 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
                                         >
                                             <option value="">-- Fixed Value --</option>
                                             {csvHeaders.map(h => <option key={h} value={h}>{h}</option>)}
+                                            {chainedColumns.some(c => !csvHeaders.includes(c)) && (
+                                                <optgroup label="From earlier responses">
+                                                    {chainedColumns.filter(c => !csvHeaders.includes(c)).map(c => <option key={c} value={c}>{c}</option>)}
+                                                </optgroup>
+                                            )}
                                         </select>
-                                        {!map.csvHeader && (
+                                        {map.csvHeader && (
+                                            <select
+                                                value={map.emptyPolicy || 'type_default'}
+                                                onChange={(e) => updateMapping(map.id, { emptyPolicy: e.target.value as EmptyValuePolicy })}
+                                                className={`w-full text-[10px] p-1 border rounded outline-none ${map.emptyPolicy && map.emptyPolicy !== 'type_default' ? 'bg-sky-50 border-sky-200 text-sky-800' : 'bg-white border-slate-200 text-slate-500'}`}
+                                                title={`What to send when the cell is empty. Type ${NULL_CELL_TOKEN} in a cell to always send null.`}
+                                            >
+                                                {(Object.keys(EMPTY_POLICY_LABELS) as EmptyValuePolicy[]).map(p => (
+                                                    <option key={p} value={p}>{EMPTY_POLICY_LABELS[p]}</option>
+                                                ))}
+                                            </select>
+                                        )}
+                                        {map.csvHeader && map.emptyPolicy === 'literal' && (
+                                            <input 
+                                                type="text"
+                                                value={map.emptyLiteral || ''}
+                                                onChange={(e) => updateMapping(map.id, { emptyLiteral: e.target.value })}
+                                                placeholder="Value for empty cells"
+                                                className="w-full text-xs p-1 border border-sky-200 rounded bg-sky-50/50 focus:bg-white"
+                                            />
+                                        )}
+                                        {(!map.csvHeader || map.castPolicy === 'use_default') && (
                                             <input 
                                                 type="text"
                                                 value={map.defaultValue || ''}
                                                 onChange={(e) => updateMapping(map.id, { defaultValue: e.target.value })}
-                                                placeholder="Default value"
+                                                placeholder={map.csvHeader ? 'Default for invalid values' : 'Default value'}
                                                 className="w-full text-xs p-1 border border-slate-200 rounded bg-slate-50 focus:bg-white"
                                             />
                                         )}
@@ -360,6 +655,47 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
                                                 <Wand2 size={10} /> Split / Transform
                                             </button>
                                         )}
+
+                                        {map.dataType !== 'string' && (
+                                            <select
+                                                value={map.castPolicy || 'fail_row'}
+                                                onChange={(e) => updateMapping(map.id, { castPolicy: e.target.value as CastFailurePolicy })}
+                                                className={`text-[10px] px-1 py-1 rounded border outline-none ${map.castPolicy && map.castPolicy !== 'fail_row' ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-slate-100 border-slate-100 text-slate-500'}`}
+                                                title="What to send when a value cannot be converted to this type"
+                                            >
+                                                {(Object.keys(CAST_POLICY_LABELS) as CastFailurePolicy[]).map(p => (
+                                                    <option key={p} value={p}>{CAST_POLICY_LABELS[p]}</option>
+                                                ))}
+                                            </select>
+                                        )}
+
+                                        <button 
+                                            onClick={() => setActiveRulesKey(activeRulesKey === map.id ? null : map.id)}
+                                            className={`flex items-center gap-1 text-[10px] px-2 py-1 rounded transition-colors ${ruleCount > 0 ? 'bg-emerald-100 text-emerald-700 font-bold' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                                            title="Validation rules checked before the upload starts"
+                                        >
+                                            <ShieldCheck size={10} /> Rules{ruleCount > 0 ? ` (${ruleCount})` : ''}
+                                        </button>
+
+                                        {parentPath && (
+                                            <button 
+                                                onClick={() => collapseToParent(parentPath)}
+                                                className="flex items-center gap-1 text-[10px] px-2 py-1 rounded bg-slate-100 text-slate-500 hover:bg-slate-200 transition-colors"
+                                                title={`Replace all fields under "${parentPath.replace(/\[\]$/, '')}" with one raw JSON field`}
+                                            >
+                                                <Minimize2 size={10} /> Collapse {parentPath.replace(/\[\]$/, '')}
+                                            </button>
+                                        )}
+
+                                        {isExpandable && (
+                                            <button 
+                                                onClick={() => expandToFields(map.id)}
+                                                className="flex items-center gap-1 text-[10px] px-2 py-1 rounded bg-slate-100 text-slate-500 hover:bg-slate-200 transition-colors"
+                                                title="Split this raw JSON field into one mapping per nested key"
+                                            >
+                                                <Maximize2 size={10} /> Expand
+                                            </button>
+                                        )}
                                     </div>
                                     <div className="text-[10px] text-slate-400 flex items-center gap-1 overflow-hidden max-w-[150px]">
                                         <Eye size={10} /> 
@@ -367,6 +703,68 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
                                     </div>
                                 </div>
 
+                                {/* VALIDATION RULES PANEL */}
+                                {activeRulesKey === map.id && (
+                                    <div className="mt-2 p-3 bg-emerald-50/50 rounded border border-emerald-100 text-xs animate-in slide-in-from-top-2">
+                                        <div className="flex items-center justify-between mb-2">
+                                            <span className="font-bold text-emerald-800 flex items-center gap-1"><ShieldCheck size={12}/> Validation Rules</span>
+                                            <select
+                                                value={rules.severity || 'error'}
+                                                onChange={(e) => updateValidation(map.id, { severity: e.target.value === 'warning' ? 'warning' : undefined })}
+                                                className="text-[10px] p-0.5 border border-emerald-200 rounded bg-white text-emerald-900"
+                                            >
+                                                <option value="error">Error (blocks upload)</option>
+                                                <option value="warning">Warning only</option>
+                                            </select>
+                                        </div>
+                                        <div className="flex gap-4 mb-2">
+                                            <label className="flex items-center gap-1.5 cursor-pointer text-slate-600">
+                                                <input type="checkbox" checked={!!rules.required} onChange={(e) => updateValidation(map.id, { required: e.target.checked })} />
+                                                Required
+                                            </label>
+                                            <label className="flex items-center gap-1.5 cursor-pointer text-slate-600">
+                                                <input type="checkbox" checked={!!rules.unique} onChange={(e) => updateValidation(map.id, { unique: e.target.checked })} />
+                                                Unique across rows
+                                            </label>
+                                        </div>
+                                        <div className="grid grid-cols-4 gap-2 mb-2">
+                                            {([['min', 'Min'], ['max', 'Max'], ['minLength', 'Min Length'], ['maxLength', 'Max Length']] as [keyof ValidationRules, string][]).map(([key, label]) => (
+                                                <div key={key}>
+                                                    <label className="block text-[10px] text-slate-500 mb-0.5">{label}</label>
+                                                    <input 
+                                                        type="number"
+                                                        value={rules[key] !== undefined ? String(rules[key]) : ''}
+                                                        onChange={(e) => updateValidation(map.id, { [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                                        className="w-full p-1 border border-emerald-200 rounded font-mono text-center bg-white"
+                                                    />
+                                                </div>
+                                            ))}
+                                        </div>
+                                        <div className="mb-2">
+                                            <label className="block text-[10px] text-slate-500 mb-0.5">Pattern (regular expression)</label>
+                                            <input 
+                                                type="text"
+                                                value={rules.pattern || ''}
+                                                onChange={(e) => updateValidation(map.id, { pattern: e.target.value })}
+                                                placeholder="e.g. ^[A-Z]{3}-\d+$"
+                                                className={`w-full p-1 border rounded font-mono bg-white ${patternError ? 'border-red-300 text-red-700' : 'border-emerald-200'}`}
+                                            />
+                                            {patternError && <div className="text-[10px] text-red-600 mt-0.5">{patternError}</div>}
+                                        </div>
+                                        <div>
+                                            <label className="block text-[10px] text-slate-500 mb-0.5">Allowed values (comma separated)</label>
+                                            <input 
+                                                type="text"
+                                                key={`${map.id}-allowed`}
+                                                defaultValue={(rules.allowedValues || []).join(', ')}
+                                                onBlur={(e) => updateValidation(map.id, { allowedValues: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })}
+                                                placeholder="e.g. active, inactive, pending"
+                                                className="w-full p-1 border border-emerald-200 rounded bg-white"
+                                            />
+                                        </div>
+                                    </div>
+                                )}
+
                                 {/* ARRAY OBJECT CONFIG PANEL */}
                                 {isArrayObject && map.csvHeader && (
                                     <div className="mt-2 p-3 bg-indigo-50/60 rounded border border-indigo-200 text-xs animate-in slide-in-from-top-2">
@@ -439,6 +837,27 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
                                                                 <option value="object">Object (JSON)</option>
                                                             </select>
                                                         </div>
+                                                        <div className="w-24">
+                                                            <select 
+                                                                value={field.emptyPolicy || 'type_default'}
+                                                                onChange={(e) => updateInternalField(map.id, fIdx, { emptyPolicy: e.target.value as EmptyValuePolicy })}
+                                                                className="w-full p-1 text-[10px] border border-indigo-200 rounded text-indigo-900"
+                                                                title="What to send when this position is empty or missing"
+                                                            >
+                                                                {(Object.keys(EMPTY_POLICY_LABELS) as EmptyValuePolicy[]).map(p => (
+                                                                    <option key={p} value={p}>{EMPTY_POLICY_LABELS[p]}</option>
+                                                                ))}
+                                                            </select>
+                                                            {field.emptyPolicy === 'literal' && (
+                                                                <input 
+                                                                    type="text"
+                                                                    value={field.emptyLiteral || ''}
+                                                                    onChange={(e) => updateInternalField(map.id, fIdx, { emptyLiteral: e.target.value })}
+                                                                    placeholder="Value"
+                                                                    className="w-full mt-0.5 p-1 text-[10px] border border-indigo-200 rounded text-indigo-900"
+                                                                />
+                                                            )}
+                                                        </div>
                                                         <button onClick={() => removeInternalField(map.id, fIdx)} className="text-indigo-300 hover:text-red-500"><X size={12}/></button>
                                                     </div>
                                                 ))}
@@ -517,7 +936,7 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
       </div>
 
       <div className="flex justify-between pt-4">
-        <button onClick={onBack} className="flex items-center gap-2 px-6 py-2.5 rounded-lg font-medium text-slate-600 hover:bg-slate-100"><ArrowLeft size={18} /> Back</button>
+        <button onClick={() => onBack(parsedRows, mappings)} className="flex items-center gap-2 px-6 py-2.5 rounded-lg font-medium text-slate-600 hover:bg-slate-100"><ArrowLeft size={18} /> Back</button>
         <div className="flex gap-3">
              <button 
                 onClick={() => setShowPreviewModal(true)}
@@ -532,7 +951,7 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
                 disabled={parsedRows.length === 0 || mappings.length === 0} 
                 className="flex items-center gap-2 px-6 py-2.5 rounded-lg font-medium bg-indigo-600 hover:bg-indigo-700 text-white shadow-lg shadow-indigo-500/20 transition-all disabled:opacity-50"
              >
-                Review & Start Upload <ArrowRight size={18} />
+                Run Pre-flight Check <ArrowRight size={18} />
             </button>
         </div>
       </div>
@@ -543,7 +962,7 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
                   <div className="p-4 border-b border-slate-100 flex items-center justify-between bg-slate-50">
                       <div className="flex items-center gap-2">
                           <FileJson size={20} className="text-indigo-600" />
-                          <h3 className="font-bold text-slate-800 text-lg">Payload Preview (First 5 Rows)</h3>
+                          <h3 className="font-bold text-slate-800 text-lg">Request Preview (First 5 Rows)</h3>
                       </div>
                       <button onClick={() => setShowPreviewModal(false)} className="p-2 hover:bg-slate-200 rounded-full text-slate-400 hover:text-slate-600">
                           <X size={20} />
@@ -552,14 +971,42 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
                   
                   <div className="flex-1 overflow-y-auto p-6 bg-slate-900 space-y-8">
                         {parsedRows.slice(0, 5).map((row, index) => {
-                            const payload = constructPayload(row, mappings);
+                            const request = buildRequest(apiConfig, row, mappings, fileIndex);
+                            const { payload, diagnostics, failed } = request;
                             return (
                                 <div key={index} className="space-y-2">
                                     <div className="text-xs font-bold text-indigo-400 uppercase tracking-wider flex items-center gap-2">
                                         <span className="bg-indigo-500/20 px-2 py-0.5 rounded">Row #{index + 1}</span>
+                                        {failed && <span className="bg-red-500/20 text-red-300 px-2 py-0.5 rounded normal-case" title={describeRequestFailure(request)}>Will not be sent</span>}
                                     </div>
-                                    <div className="bg-black/30 rounded-lg p-4 border border-white/10 font-mono text-sm text-green-400 overflow-x-auto">
-                                        <pre>{JSON.stringify(payload, null, 2)}</pre>
+                                    {request.issues.length > 0 && (
+                                        <ul className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 space-y-1 font-mono text-xs text-red-300">
+                                            {request.issues.map((issue, iIdx) => (
+                                                <li key={iIdx} className="flex items-start gap-2"><AlertTriangle size={12} className="mt-0.5 shrink-0" /> {issue}</li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                    {diagnostics.length > 0 && (
+                                        <ul className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 space-y-1 font-mono text-xs text-red-300">
+                                            {diagnostics.map((d, dIdx) => (
+                                                <li key={dIdx} className="flex items-start gap-2">
+                                                    <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+                                                    <span>{formatDiagnostic(d)} <span className="text-red-400/70">({CAST_POLICY_LABELS[d.policy].replace('Invalid value: ', '')})</span></span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                    <div className={`bg-black/30 rounded-lg p-4 border font-mono text-sm overflow-x-auto ${failed ? 'border-red-500/30 text-slate-400' : 'border-white/10 text-green-400'}`}>
+                                        <div className="text-sky-300 break-all"><span className="font-bold">{request.method}</span> {request.url}</div>
+                                        {Object.entries(request.headers).map(([key, value]) => (
+                                            <div key={key} className="text-slate-400 text-xs break-all">{key}: {value}</div>
+                                        ))}
+                                        {request.encoding === 'multipart' && request.hasBody && (
+                                            <div className="text-slate-500 text-xs">Content-Type: multipart/form-data (boundary set by the browser)</div>
+                                        )}
+                                        {request.hasBody
+                                            ? <pre className="mt-3 whitespace-pre-wrap">{previewBody(apiConfig, payload)}</pre>
+                                            : <div className="mt-3 text-xs text-slate-500 italic">No body: {request.method} sends the fields in the query string.</div>}
                                     </div>
                                 </div>
                             );
@@ -575,6 +1022,15 @@ const DataMapper: React.FC<Props> = ({ apiConfig, initialData, initialMappings,
           </div>
       )}
       
+      {pendingWorkbook && (
+          <ExcelImportDialog
+              workbook={pendingWorkbook.workbook}
+              fileName={pendingWorkbook.fileName}
+              onImport={handleWorkbookImport}
+              onCancel={() => setPendingWorkbook(null)}
+          />
+      )}
+      
       {isExpanded && (
           <div className="fixed inset-0 z-[100] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
               <div className="bg-white rounded-xl shadow-2xl w-full max-w-[95vw] h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
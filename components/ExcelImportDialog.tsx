@@ -0,0 +1,220 @@
+import React, { useState, useMemo } from 'react';
+import { WorkBook, utils } from 'xlsx';
+import { CsvRow } from '../types';
+import { CellValueMode, DEFAULT_SOURCE_COLUMN, getSheetPreview, importWorkbookSheets, parseRangeInput } from '../utils/excelImport';
+import { FileSpreadsheet, X, AlertCircle, Layers, Check } from 'lucide-react';
+
+interface Props {
+  workbook: WorkBook;
+  fileName: string;
+  onImport: (headers: string[], data: CsvRow[]) => void;
+  onCancel: () => void;
+}
+
+const ExcelImportDialog: React.FC<Props> = ({ workbook, fileName, onImport, onCancel }) => {
+  const [activeSheet, setActiveSheet] = useState(workbook.SheetNames[0]);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([workbook.SheetNames[0]]);
+  const [headerRow, setHeaderRow] = useState(1);
+  const [rangeInput, setRangeInput] = useState('');
+  const [valueMode, setValueMode] = useState<CellValueMode>('computed');
+  const [addSourceColumn, setAddSourceColumn] = useState(false);
+  const [sourceColumn, setSourceColumn] = useState(DEFAULT_SOURCE_COLUMN);
+
+  const preview = useMemo(() => getSheetPreview(workbook.Sheets[activeSheet]), [workbook, activeSheet]);
+
+  const rangeError = useMemo(() => {
+    try {
+      parseRangeInput(rangeInput);
+      return null;
+    } catch (e: any) {
+      return e.message as string;
+    }
+  }, [rangeInput]);
+
+  const range = rangeError ? null : parseRangeInput(rangeInput);
+  const isMerging = selectedSheets.length > 1;
+
+  const result = useMemo(() => {
+    if (rangeError || selectedSheets.length === 0 || headerRow < 1) return null;
+    return importWorkbookSheets(workbook, {
+      sheets: workbook.SheetNames.filter(name => selectedSheets.includes(name)),
+      headerRow,
+      range: rangeInput,
+      valueMode,
+      sourceColumn: isMerging || addSourceColumn ? sourceColumn : undefined,
+    });
+  }, [workbook, selectedSheets, headerRow, rangeInput, rangeError, valueMode, isMerging, addSourceColumn, sourceColumn]);
+
+  const toggleSheet = (name: string) => {
+    setSelectedSheets(prev => prev.includes(name) ? prev.filter(s => s !== name) : [...prev, name]);
+    setActiveSheet(name);
+  };
+
+  const cellClass = (r: number, c: number) => {
+    if (r === headerRow - 1 && (!range || (c >= range.s.c && c <= range.e.c))) return 'bg-indigo-100 font-semibold text-indigo-900';
+    if (range && r >= range.s.r && r <= range.e.r && c >= range.s.c && c <= range.e.c && r > headerRow - 1) return 'bg-green-50 text-slate-700';
+    if (!range && r > headerRow - 1) return 'text-slate-700';
+    return 'text-slate-300';
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl h-[85vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between bg-slate-50">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet size={20} className="text-green-600" />
+            <h3 className="font-bold text-slate-800 text-lg">Import Workbook</h3>
+            <span className="text-sm text-slate-400 font-mono">{fileName}</span>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-200 rounded-full text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Sheet list & options */}
+          <div className="w-72 border-r border-slate-100 flex flex-col overflow-y-auto">
+            <div className="p-4 space-y-1">
+              <div className="text-[10px] uppercase font-bold text-slate-400 mb-2">Sheets</div>
+              {workbook.SheetNames.map(name => {
+                const ref = workbook.Sheets[name]['!ref'];
+                const rows = ref ? utils.decode_range(ref).e.r + 1 : 0;
+                return (
+                  <div
+                    key={name}
+                    onClick={() => setActiveSheet(name)}
+                    className={`flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer text-sm ${activeSheet === name ? 'bg-indigo-50 text-indigo-800' : 'text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedSheets.includes(name)}
+                      onChange={() => toggleSheet(name)}
+                      onClick={(e) => e.stopPropagation()}
+                      className="rounded border-slate-300 text-indigo-600 w-4 h-4"
+                    />
+                    <span className="flex-1 truncate">{name}</span>
+                    <span className="text-[10px] text-slate-400 font-mono">{rows} rows</span>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="p-4 border-t border-slate-100 space-y-4 text-sm">
+              <div>
+                <label className="block text-[10px] uppercase font-bold text-slate-400 mb-1">Header Row</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={headerRow}
+                  onChange={(e) => setHeaderRow(Math.max(1, parseInt(e.target.value) || 1))}
+                  className="w-full p-1.5 border border-slate-200 rounded font-mono text-sm outline-none focus:ring-1 focus:ring-indigo-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-[10px] uppercase font-bold text-slate-400 mb-1">Data Range (optional)</label>
+                <input
+                  type="text"
+                  value={rangeInput}
+                  onChange={(e) => setRangeInput(e.target.value)}
+                  placeholder="e.g. A5:K2000"
+                  className={`w-full p-1.5 border rounded font-mono text-sm outline-none focus:ring-1 ${rangeError ? 'border-red-300 bg-red-50 focus:ring-red-400' : 'border-slate-200 focus:ring-indigo-500'}`}
+                />
+                {rangeError && (
+                  <div className="text-[11px] text-red-600 mt-1 flex items-start gap-1"><AlertCircle size={12} className="mt-0.5 shrink-0" /> {rangeError}</div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-[10px] uppercase font-bold text-slate-400 mb-1">Cell Values</label>
+                <div className="flex bg-slate-100 rounded-lg p-0.5 text-xs">
+                  <button
+                    onClick={() => setValueMode('computed')}
+                    className={`flex-1 px-2 py-1 rounded-md ${valueMode === 'computed' ? 'bg-white shadow-sm text-indigo-700 font-medium' : 'text-slate-500'}`}
+                  >
+                    Computed
+                  </button>
+                  <button
+                    onClick={() => setValueMode('formulas')}
+                    className={`flex-1 px-2 py-1 rounded-md ${valueMode === 'formulas' ? 'bg-white shadow-sm text-indigo-700 font-medium' : 'text-slate-500'}`}
+                  >
+                    Formulas
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isMerging || addSourceColumn}
+                    disabled={isMerging}
+                    onChange={(e) => setAddSourceColumn(e.target.checked)}
+                    className="rounded border-slate-300 text-indigo-600 w-4 h-4"
+                  />
+                  <Layers size={12} /> Add source sheet column
+                </label>
+                {(isMerging || addSourceColumn) && (
+                  <input
+                    type="text"
+                    value={sourceColumn}
+                    onChange={(e) => setSourceColumn(e.target.value)}
+                    className="mt-1 w-full p-1.5 border border-slate-200 rounded text-xs outline-none focus:ring-1 focus:ring-indigo-500"
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="flex-1 overflow-auto bg-slate-50">
+            {preview.length === 0 ? (
+              <div className="flex items-center justify-center h-full text-sm text-slate-400">This sheet is empty.</div>
+            ) : (
+              <table className="text-left border-collapse text-xs">
+                <thead className="sticky top-0 bg-slate-100 text-slate-500">
+                  <tr>
+                    <th className="p-1.5 w-10 border-b border-slate-200"></th>
+                    {preview[0].map((_, c) => (
+                      <th key={c} className="p-1.5 min-w-[90px] border-b border-l border-slate-200 text-center font-mono">{utils.encode_col(c)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white">
+                  {preview.map((row, r) => (
+                    <tr key={r} className="border-b border-slate-100">
+                      <td className={`p-1.5 text-center font-mono ${r === headerRow - 1 ? 'text-indigo-600 font-bold' : 'text-slate-400'}`}>{r + 1}</td>
+                      {row.map((value, c) => (
+                        <td key={c} className={`p-1.5 border-l border-slate-100 max-w-[180px] truncate ${cellClass(r, c)}`} title={value}>{value}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex items-center justify-between">
+          <div className="text-sm text-slate-500">
+            {result
+              ? <><span className="font-bold text-slate-700">{result.data.length}</span> rows, <span className="font-bold text-slate-700">{result.headers.length}</span> columns from {selectedSheets.length} sheet{selectedSheets.length > 1 ? 's' : ''}</>
+              : 'Select at least one sheet.'}
+          </div>
+          <div className="flex gap-3">
+            <button onClick={onCancel} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg font-medium text-sm">Cancel</button>
+            <button
+              onClick={() => result && onImport(result.headers, result.data)}
+              disabled={!result || result.data.length === 0}
+              className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium text-sm flex items-center gap-2 disabled:opacity-50"
+            >
+              <Check size={16} /> Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExcelImportDialog;
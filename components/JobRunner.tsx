@@ -1,39 +1,165 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { ApiConfig, CsvRow, Mapping, JobLog } from '../types';
-import { constructPayload } from '../utils/dataUtils';
-import { Play, Square, RefreshCcw, CheckCircle2, XCircle, Clock, AlertTriangle, Timer, ArrowDownCircle, Edit2, RotateCw, Save, X } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { CsvRow, JobLog, RequestAttempt, RequestStep, SentRequest, StepProgress } from '../types';
+import { formatDiagnostic } from '../utils/dataUtils';
+import { buildRequest, describeRequestFailure, maskSecretHeaders } from '../utils/requestBuilder';
+import { buildRequestCurl } from '../utils/curlParser';
+import { encodeBody, measureBody, previewBody } from '../utils/bodyEncoders';
+import { FileIndex, fileNameReplacer, formatBytes } from '../utils/fileAttachments';
+import { getGraphQLErrors } from '../utils/graphql';
+import { checkSuccess } from '../utils/successRules';
+import { extractResponseFields } from '../utils/responseExtractors';
+import { runPool, sleep, TaskOutcome } from '../utils/jobQueue';
+import { createRateLimiter, DEFAULT_RATE_LIMIT, DEFAULT_THROTTLE_PAUSE, formatRate, getMaxRate, getRetryDelay, isRateLimitExhausted, RateInterval, RateLimit, RateLimiter, THROTTLE_STATUSES } from '../utils/rateLimiter';
+import { formatStepLabel } from '../utils/requestSteps';
+import { buildDryRun, DryRunResult, dryRunToCurlScript, dryRunToHttpFile, dryRunToJson } from '../utils/dryRun';
+import { downloadText } from '../utils/dataExport';
+import { saveJob, saveRowLogs } from '../utils/jobStore';
+import RequestInspector from './RequestInspector';
+import { downloadResults, RESULT_FORMAT_LABELS, ResultFormat, selectResultLogs } from '../utils/jobResults';
+import { DEFAULT_RETRY_POLICY, getBackoffDelay, getInvalidStatusCodes, isRetryable, RetryPolicy } from '../utils/retryPolicy';
+import { Play, Square, RefreshCcw, CheckCircle2, XCircle, Clock, AlertTriangle, Timer, ArrowDownCircle, Edit2, RotateCw, Save, X, Layers, Gauge, Repeat, FlaskConical, Download } from 'lucide-react';
 
 interface Props {
-  apiConfig: ApiConfig;
+  steps: RequestStep[]; // Sent in order for every row
   data: CsvRow[];
-  mappings: Mapping[];
+  files: FileIndex;
+  resumedLogs?: JobLog[] | null; // Progress of a saved job, restored for the rows whose data is unchanged
+  onDataChange: (data: CsvRow[]) => void; // Rows edited or enriched by extractors in this step
   onBack: () => void;
 }
 
-const JobRunner: React.FC<Props> = ({ apiConfig, data, mappings, onBack }) => {
+// Shared by the rows of one run
+interface RowRun {
+  signal: AbortSignal;
+  limiter: RateLimiter;
+  retryPolicy: RetryPolicy | null;
+  throttleCounts: Map<number, number> | null; // Without it a throttled response fails the row straight away
+  rowStates: Map<number, JobLog>;             // Latest state of rows that were requeued
+}
+
+// Results are collected and written to the log at most this often while a job runs
+const LOG_FLUSH_INTERVAL = 250;
+const MAX_CONCURRENCY = 20;
+// A throttled row is queued again this many times before it counts as failed
+const MAX_THROTTLE_REQUEUES = 5;
+// Requests listed in the dry-run panel; the exports always contain all of them
+const DRY_RUN_PREVIEW_LIMIT = 200;
+// Responses are kept in full for the results export; the table shows the start
+const RESPONSE_PREVIEW_LENGTH = 200;
+
+const previewResponse = (text?: string): string =>
+  !text ? '-' : text.length > RESPONSE_PREVIEW_LENGTH ? `${text.slice(0, RESPONSE_PREVIEW_LENGTH)}...` : text;
+
+// The step a row is at: the first that hasn't succeeded, or the last once all have
+const getCurrentStep = (log: JobLog, stepCount: number): number => {
+  if (!log.steps) return 0;
+  const index = log.steps.findIndex(p => p.status !== 'success');
+  return index === -1 ? stepCount - 1 : index;
+};
+
+// Writes extracted values into the row; nothing changes when the response had none of them
+const withExtracted = (log: JobLog, extracted?: Record<string, string>): Partial<JobLog> => {
+  if (!extracted || Object.keys(extracted).length === 0) return {};
+  return { data: { ...log.data, ...extracted }, extracted: { ...log.extracted, ...extracted } };
+};
+
+interface RequestPreview {
+  method: string;
+  url: string;
+  payloadText: string;
+  problems: string[];
+}
+
+interface AttemptResult {
+  status: number;
+  response: string;
+  latencyMs?: number;
+  request?: SentRequest;
+  responseHeaders?: Record<string, string>;
+  responseBytes?: number;
+  responseBody?: string;
+}
+
+const toAttempt = (result: AttemptResult, step?: number): RequestAttempt => ({
+  step,
+  statusCode: result.status,
+  latencyMs: result.latencyMs ?? 0,
+  response: result.response,
+  timestamp: new Date(),
+  request: result.request,
+  responseHeaders: result.responseHeaders,
+  responseBytes: result.responseBytes,
+  responseBody: result.responseBody
+});
+
+const JobRunner: React.FC<Props> = ({ steps, data, files, resumedLogs, onDataChange, onBack }) => {
   const [logs, setLogs] = useState<JobLog[]>([]);
   const [isRunning, setIsRunning] = useState(false);
   const [progress, setProgress] = useState(0);
   const [stats, setStats] = useState({ success: 0, error: 0, pending: data.length });
   const [delay, setDelay] = useState(5000); 
+  const [concurrency, setConcurrency] = useState(1);
+  const [rateLimit, setRateLimit] = useState<RateLimit | null>(null);
+  const [rateStatus, setRateStatus] = useState<{ current: number, pausedUntil: number } | null>(null);
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy | null>(null);
+  const [expandedRow, setExpandedRow] = useState<number | null>(null);
+  const [inspectedRow, setInspectedRow] = useState<number | null>(null);
+  const [dryRun, setDryRun] = useState<DryRunResult | null>(null);
   const [autoScroll, setAutoScroll] = useState(true); 
+  const [exportFailedOnly, setExportFailedOnly] = useState(false);
   
   const [editingRow, setEditingRow] = useState<{ index: number, data: CsvRow } | null>(null);
   
   const abortControllerRef = useRef<AbortController | null>(null);
+  const pendingUpdatesRef = useRef(new Map<number, Partial<JobLog>>());
+  const emittedDataRef = useRef<CsvRow[] | null>(null);
+  const persistedLogsRef = useRef<JobLog[]>([]);
+  const jobSavedRef = useRef(false); // Whether the saved job is this one yet
   const logsEndRef = useRef<HTMLDivElement>(null);
   const logsContainerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    const initialLogs: JobLog[] = data.map((row, index) => ({
+    // Rows handed back through onDataChange are already in the log
+    if (data === emittedDataRef.current) return;
+    // An edited row starts over as pending, even if its saved progress says it succeeded
+    const initialLogs: JobLog[] = data.map((row, index) => resumedLogs?.[index]?.data === row ? { ...resumedLogs[index], id: index } : {
       id: index,
       status: 'pending',
       data: row,
       timestamp: new Date()
-    }));
+    });
     setLogs(initialLogs);
+    persistedLogsRef.current = initialLogs;
+    jobSavedRef.current = false;
   }, [data]);
 
+  /*
+   * Saves the rows that changed since the last save, so a reload can resume
+   * the job. Opening the runner saves nothing: the job replaces a saved one
+   * only once one of its rows changes, e.g. when it starts running.
+   */
+  useEffect(() => {
+    const previous = persistedLogsRef.current;
+    if (logs.length !== previous.length) return;
+    const changed = logs.filter((log, idx) => log !== previous[idx]);
+    persistedLogsRef.current = logs;
+    if (changed.length === 0) return;
+    if (jobSavedRef.current) {
+      saveRowLogs(changed);
+    } else {
+      jobSavedRef.current = true;
+      saveJob({ steps, files: files.files, savedAt: new Date() }, logs);
+    }
+  }, [logs]);
+
+  // Progress is saved, but requests in flight when the page closes are sent again on resume
+  useEffect(() => {
+    if (!isRunning) return;
+    const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [isRunning]);
+
   useEffect(() => {
     const newStats = logs.reduce((acc, log) => {
         if (log.status === 'success') acc.success++;
@@ -49,36 +175,168 @@ const JobRunner: React.FC<Props> = ({ apiConfig, data, mappings, onBack }) => {
 
   }, [logs]);
 
+  // Once idle, passes edited and enriched rows back so the grid and the next push see them
+  useEffect(() => {
+    if (isRunning || logs.length !== data.length || logs.every((log, idx) => log.data === data[idx])) return;
+    const rows = logs.map(log => log.data as CsvRow);
+    emittedDataRef.current = rows;
+    onDataChange(rows);
+  }, [logs, data, isRunning, onDataChange]);
+
   useEffect(() => {
     if (isRunning && autoScroll) {
         logsEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
     }
   }, [logs, isRunning, autoScroll]);
 
-  const sendRequest = async (rowData: CsvRow, signal?: AbortSignal) => {
-    const body = constructPayload(rowData, mappings);
+  const sendRequest = async (step: RequestStep, rowData: CsvRow, signal: AbortSignal, limiter: RateLimiter) => {
+    const { config } = step;
+    const request = buildRequest(config, rowData, step.mappings, files);
+    if (request.failed) {
+        return { ok: false, status: 0, response: `Not sent: ${describeRequestFailure(request)}`, skipped: true };
+    }
+    const body = request.hasBody ? encodeBody(config, request.payload) : undefined;
+    const uploadBytes = body === undefined ? 0 : measureBody(body);
+    const maskedHeaders = maskSecretHeaders(request.headers);
+    const sent: SentRequest = {
+        method: request.method,
+        url: request.url,
+        headers: maskedHeaders,
+        body: body === undefined ? undefined : typeof body === 'string' ? body : previewBody(config, request.payload),
+        curl: buildRequestCurl(config, { ...request, headers: maskedHeaders })
+    };
+    // Outside the try so that stopping while waiting for a slot propagates as an AbortError
+    await limiter.acquire(signal);
+    const startedAt = performance.now();
     try {
-        const response = await fetch(apiConfig.url, {
-            method: apiConfig.method,
-            headers: {
-                ...apiConfig.headers,
-                ...(!Object.keys(apiConfig.headers).find(k => k.toLowerCase() === 'content-type') 
-                    ? { 'Content-Type': 'application/json' } 
-                    : {})
-            },
-            body: JSON.stringify(body),
+        const response = await fetch(request.url, {
+            method: request.method,
+            headers: request.headers,
+            body,
             signal: signal
         });
-        const text = await response.text();
+        const responseBody = await response.text();
+        let text = responseBody;
+        const check = checkSuccess(config.successRules, { status: response.status, headers: response.headers, text });
+        // GraphQL servers answer 200 even when the operation failed
+        const graphQLErrors = config.graphql && response.ok ? getGraphQLErrors(text) : [];
+        // Error, throttled and rejected responses don't fill the row's columns
+        const extracted = config.extractors?.length && check.ok && graphQLErrors.length === 0 ? extractResponseFields(config.extractors, text) : undefined;
+        if (graphQLErrors.length > 0) text = `GraphQL errors: ${graphQLErrors.join('; ')}`;
+        if (check.failedRule) text = `Rule failed: ${check.failedRule} | ${text}`;
+        const latencyMs = Math.round(performance.now() - startedAt);
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((value, key) => { responseHeaders[key] = value; });
+        // Headers other than Retry-After are only readable when the API exposes them to CORS
+        const throttled = THROTTLE_STATUSES.includes(response.status);
+        const serverDelay = throttled || isRateLimitExhausted(response.headers) ? getRetryDelay(response.headers) : null;
         return { 
-            ok: response.ok, 
+            ok: check.ok && graphQLErrors.length === 0, 
             status: response.status, 
-            response: text.substring(0, 200) + (text.length > 200 ? '...' : '')
+            response: text,
+            uploadBytes,
+            latencyMs,
+            request: sent,
+            responseHeaders,
+            responseBytes: measureBody(responseBody),
+            responseBody: text !== responseBody ? responseBody : undefined,
+            extracted,
+            throttled,
+            retryAfterMs: throttled ? serverDelay ?? DEFAULT_THROTTLE_PAUSE : serverDelay ?? undefined
         };
     } catch (err: any) {
-        if (err.name === 'AbortError') throw err;
-        return { ok: false, status: 0, response: err.message };
+        // An aborted fetch rejects with the abort reason, which need not be an AbortError
+        if (err?.name === 'AbortError' || signal.aborted) throw err;
+        return { ok: false, status: 0, response: err.message, uploadBytes, latencyMs: Math.round(performance.now() - startedAt), request: sent };
+    }
+  };
+
+  /**
+   * Sends the row's remaining steps in order, starting at the first one that
+   * hasn't succeeded, and stops at the first failure. Progress goes to the
+   * pending log updates and to rowStates, which carries the enriched row
+   * across requeues. Manual retries pass no retry policy or throttle counts,
+   * so they send each step once.
+   */
+  const runRow = async (log: JobLog, run: RowRun): Promise<TaskOutcome> => {
+    let state = run.rowStates.get(log.id) || log;
+    const save = (changes: Partial<JobLog>) => {
+        state = { ...state, ...changes, timestamp: new Date() };
+        run.rowStates.set(log.id, state);
+        pendingUpdatesRef.current.set(log.id, state);
+    };
+    const chained = steps.length > 1;
+    let progress: StepProgress[] = state.steps && state.steps.length === steps.length ? state.steps : steps.map(() => ({ status: 'pending' }));
+    const setStepProgress = (index: number, step: StepProgress) => {
+        progress = progress.map((p, i) => i === index ? step : p);
+        return chained ? progress : undefined;
+    };
+    let sent = false;
+
+    for (let s = progress.findIndex(p => p.status !== 'success'); s !== -1 && s < steps.length; s++) {
+        const prefix = chained ? `${formatStepLabel(steps, s)}: ` : '';
+        for (let attempt = 1; ; attempt++) {
+            let result;
+            try {
+                result = await sendRequest(steps[s], state.data as CsvRow, run.signal, run.limiter);
+            } catch (err: any) {
+                // Only a request cut off by Stop leaves its row pending; a response that arrived is recorded below
+                if (err?.name === 'AbortError' || run.signal.aborted) throw err;
+                // Fallback for other errors that might have escaped sendRequest's catch
+                result = { ok: false, status: 0, response: err.message || 'Unknown Error' };
+            }
+            // No response arrived before Stop, so the row was not processed
+            if (run.signal.aborted && result.status === 0 && !result.skipped) return 'skipped';
+            if (result.skipped) {
+                save({ status: 'error', statusCode: 0, response: prefix + result.response, steps: setStepProgress(s, { status: 'error', statusCode: 0, response: result.response }) });
+                // Rows that were never sent don't need to wait for the next request slot
+                return sent ? 'sent' : 'skipped';
+            }
+            sent = true;
+            save({ attempts: [...(state.attempts || []), toAttempt(result, chained ? s : undefined)], ...withExtracted(state, result.extracted) });
+
+            // The server's pause applies to every worker
+            if (result.retryAfterMs !== undefined) run.limiter.pauseFor(result.retryAfterMs);
+            // Throttled rows go to the back of the queue without using up their retry attempts
+            if (result.throttled && run.throttleCounts) {
+                const count = (run.throttleCounts.get(log.id) || 0) + 1;
+                run.throttleCounts.set(log.id, count);
+                if (count <= MAX_THROTTLE_REQUEUES) {
+                    save({
+                        status: 'pending',
+                        statusCode: result.status,
+                        response: `${prefix}Throttled (${result.status}); queued again after a ${Math.ceil(result.retryAfterMs / 1000)}s pause`
+                    });
+                    return 'requeue';
+                }
+            }
+
+            const policy = run.retryPolicy;
+            if (!result.ok && policy && attempt < policy.maxAttempts && isRetryable(policy, result.status)) {
+                const wait = getBackoffDelay(policy, attempt);
+                save({
+                    status: 'pending',
+                    statusCode: result.status,
+                    response: `${prefix}Attempt ${attempt} of ${policy.maxAttempts} failed (${result.status || 'network error'}); retrying in ${(wait / 1000).toFixed(1)}s`
+                });
+                await sleep(wait, run.signal);
+                if (run.signal.aborted) return 'skipped';
+                continue;
+            }
+
+            const isLast = s === steps.length - 1;
+            save({
+                status: !result.ok ? 'error' : isLast ? 'success' : 'pending',
+                statusCode: result.status,
+                response: prefix + result.response,
+                uploadBytes: result.uploadBytes,
+                steps: setStepProgress(s, { status: result.ok ? 'success' : 'error', statusCode: result.status, response: result.response })
+            });
+            if (!result.ok) return 'sent';
+            break;
+        }
     }
+    return sent ? 'sent' : 'skipped';
   };
 
   const retryRow = async (index: number) => {
@@ -90,21 +348,16 @@ const JobRunner: React.FC<Props> = ({ apiConfig, data, mappings, onBack }) => {
          return n;
      });
 
-     const row = logs[index].data;
      try {
-         const result = await sendRequest(row as CsvRow);
-         setLogs(prev => {
-             const n = [...prev];
-             n[index] = {
-                 ...n[index],
-                 status: result.ok ? 'success' : 'error',
-                 statusCode: result.status,
-                 response: result.response,
-                 timestamp: new Date()
-             };
-             return n;
+         await runRow(logs[index], {
+             signal: new AbortController().signal,
+             limiter: createRateLimiter(null),
+             retryPolicy: null,
+             throttleCounts: null,
+             rowStates: new Map()
          });
      } catch (e) { /* ignore */ }
+     flushLogUpdates();
   };
 
   const handleEditSave = (newData: CsvRow, shouldRetry: boolean) => {
@@ -123,68 +376,87 @@ const JobRunner: React.FC<Props> = ({ apiConfig, data, mappings, onBack }) => {
       }
   };
 
+  // Applies the buffered row results in a single state update
+  const flushLogUpdates = useCallback(() => {
+    const updates = pendingUpdatesRef.current;
+    if (updates.size === 0) return;
+    pendingUpdatesRef.current = new Map();
+    setLogs(prev => {
+        const newLogs = [...prev];
+        updates.forEach((update, idx) => { newLogs[idx] = { ...newLogs[idx], ...update }; });
+        return newLogs;
+    });
+  }, []);
+
   const executeJob = useCallback(async () => {
     if (isRunning) return;
     setIsRunning(true);
-    abortControllerRef.current = new AbortController();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
-    for (let i = 0; i < logs.length; i++) {
-        const currentLog = logs[i]; 
-        
-        if (currentLog.status === 'success') continue; 
+    // Everything that hasn't succeeded yet, so a stopped job resumes where it left off
+    const queue = logs.filter(log => log.status !== 'success').map(log => log.id);
+    const limiter = createRateLimiter(rateLimit);
+    const run: RowRun = {
+        signal: controller.signal,
+        limiter,
+        retryPolicy,
+        throttleCounts: new Map(),
+        rowStates: new Map()
+    };
+    const tick = () => {
+        flushLogUpdates();
+        setRateStatus({ current: limiter.getCurrentRate(), pausedUntil: limiter.getPausedUntil() });
+    };
+    const flushTimer = setInterval(tick, LOG_FLUSH_INTERVAL);
 
-        if (abortControllerRef.current?.signal.aborted) {
-            setIsRunning(false);
-            return;
-        }
+    try {
+        await runPool(queue, (idx: number) => runRow(logs[idx], run), { concurrency, delay: Math.max(50, delay), signal: controller.signal });
+    } finally {
+        clearInterval(flushTimer);
+        flushLogUpdates();
+        setRateStatus(null);
+        setIsRunning(false);
+    }
+  }, [logs, steps, files, isRunning, delay, concurrency, rateLimit, retryPolicy, flushLogUpdates]);
 
-        let result;
-        try {
-            result = await sendRequest(currentLog.data as CsvRow, abortControllerRef.current.signal);
-        } catch (err: any) {
-            // Check for AbortError (name can vary slightly in some polyfills/browsers, checking name is standard)
-            if (err.name === 'AbortError') {
-                setIsRunning(false);
-                return; // Exit the loop and function
-            }
-            // Fallback for other errors that might have escaped sendRequest's catch
-            result = { ok: false, status: 0, response: err.message || 'Unknown Error' };
-        }
+  // Fields of every step that read a column, once per column
+  const editableMappings = steps
+    .flatMap(step => step.mappings)
+    .filter((mapping, idx, all) => mapping.csvHeader && all.findIndex(m => m.csvHeader === mapping.csvHeader) === idx);
 
-        if (abortControllerRef.current?.signal.aborted) {
-             setIsRunning(false);
-             return;
-        }
-        
-        setLogs(prev => {
-            const newLogs = [...prev];
-            newLogs[i] = {
-                ...newLogs[i],
-                status: result.ok ? 'success' : 'error',
-                statusCode: result.status,
-                response: result.response,
-                timestamp: new Date()
-            };
-            return newLogs;
-        });
+  // Payload previews of unsent rows, by row data, so the log flushes don't rebuild every row's request
+  const previewCache = useMemo(() => new WeakMap<CsvRow, Map<number, RequestPreview>>(), [steps, files]);
 
-        const waitTime = Math.max(50, delay);
-        // We use a small loop or check for abort during wait if we wanted to be very precise, 
-        // but checking after await is usually sufficient for this app.
-        await new Promise(r => setTimeout(r, waitTime)); 
-        
-        if (abortControllerRef.current?.signal.aborted) {
-            setIsRunning(false);
-            return;
-        }
+  const getRequestPreview = (row: CsvRow, stepIndex: number): RequestPreview => {
+    let byStep = previewCache.get(row);
+    if (!byStep) {
+        byStep = new Map();
+        previewCache.set(row, byStep);
     }
-    
-    setIsRunning(false);
-  }, [logs, apiConfig, mappings, isRunning, delay]);
+    let preview = byStep.get(stepIndex);
+    if (!preview) {
+        const step = steps[stepIndex];
+        const built = buildRequest(step.config, row, step.mappings, files);
+        preview = {
+            method: built.method,
+            url: built.url,
+            payloadText: !built.hasBody ? '(no body)' : built.encoding === 'json' ? JSON.stringify(built.payload, fileNameReplacer) : previewBody(step.config, built.payload),
+            problems: [...built.diagnostics.map(formatDiagnostic), ...built.issues]
+        };
+        byStep.set(stepIndex, preview);
+    }
+    return preview;
+  };
+
+  const exportResults = (format: ResultFormat) => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadResults(selectResultLogs(logs, exportFailedOnly), format, exportFailedOnly ? `failed-rows-${date}` : `results-${date}`);
+  };
 
   const stopJob = () => {
     if (abortControllerRef.current) {
-        abortControllerRef.current.abort("User stopped the job");
+        abortControllerRef.current.abort(new DOMException('The job was stopped.', 'AbortError'));
     }
     setIsRunning(false);
   };
@@ -232,6 +504,15 @@ const JobRunner: React.FC<Props> = ({ apiConfig, data, mappings, onBack }) => {
                             Stop
                         </button>
                     )}
+
+                    <button
+                        onClick={() => setDryRun(buildDryRun(steps, logs.map(l => l.data), files))}
+                        disabled={isRunning}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium border border-slate-300 text-slate-700 hover:bg-slate-50 transition-colors disabled:opacity-50"
+                        title="Resolve every request without sending anything"
+                    >
+                        <FlaskConical size={16} /> Dry Run
+                    </button>
                     
                     {/* Delay Input */}
                     <div className="flex items-center gap-2 bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 h-10">
@@ -245,14 +526,144 @@ const JobRunner: React.FC<Props> = ({ apiConfig, data, mappings, onBack }) => {
                             onChange={(e) => setDelay(Math.max(0, Number(e.target.value)))}
                             className="w-20 text-sm bg-transparent outline-none font-mono text-slate-700 text-right"
                             disabled={isRunning}
-                            title="Time to wait between requests"
+                            title="Time each worker waits between its requests"
                         />
                     </div>
 
+                    {/* Concurrency Input */}
+                    <div className="flex items-center gap-2 bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 h-10">
+                        <Layers size={16} className="text-slate-500" />
+                        <span className="text-xs font-medium text-slate-500 whitespace-nowrap">Parallel:</span>
+                        <input
+                            type="number"
+                            min="1"
+                            max={MAX_CONCURRENCY}
+                            value={concurrency}
+                            onChange={(e) => setConcurrency(Math.min(MAX_CONCURRENCY, Math.max(1, Math.floor(Number(e.target.value)) || 1)))}
+                            className="w-12 text-sm bg-transparent outline-none font-mono text-slate-700 text-right"
+                            disabled={isRunning}
+                            title="Requests in flight at the same time"
+                        />
+                    </div>
+
+                    {/* Rate Limit */}
+                    <div className="flex items-center gap-2 bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 h-10 text-xs text-slate-500">
+                        <Gauge size={16} className="text-slate-500" />
+                        <label className="flex items-center gap-1 font-medium whitespace-nowrap cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={!!rateLimit}
+                                onChange={(e) => setRateLimit(e.target.checked ? DEFAULT_RATE_LIMIT : null)}
+                                disabled={isRunning}
+                            />
+                            Limit
+                        </label>
+                        {rateLimit && (
+                            <>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    value={rateLimit.requests}
+                                    onChange={(e) => setRateLimit({ ...rateLimit, requests: Math.max(1, Number(e.target.value) || 1) })}
+                                    className="w-12 text-sm bg-transparent outline-none font-mono text-slate-700 text-right"
+                                    disabled={isRunning}
+                                    title="Requests per interval"
+                                />
+                                <select
+                                    value={rateLimit.interval}
+                                    onChange={(e) => setRateLimit({ ...rateLimit, interval: e.target.value as RateInterval })}
+                                    className="bg-transparent outline-none text-slate-700"
+                                    disabled={isRunning}
+                                >
+                                    <option value="second">/ sec</option>
+                                    <option value="minute">/ min</option>
+                                </select>
+                                <span>burst</span>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    value={rateLimit.burst}
+                                    onChange={(e) => setRateLimit({ ...rateLimit, burst: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+                                    className="w-10 text-sm bg-transparent outline-none font-mono text-slate-700 text-right"
+                                    disabled={isRunning}
+                                    title="Requests that may go out back to back"
+                                />
+                            </>
+                        )}
+                    </div>
+
+                    {/* Retry Policy */}
+                    <div className="flex items-center gap-2 bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 h-10 text-xs text-slate-500">
+                        <Repeat size={16} className="text-slate-500" />
+                        <label className="flex items-center gap-1 font-medium whitespace-nowrap cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={!!retryPolicy}
+                                onChange={(e) => setRetryPolicy(e.target.checked ? DEFAULT_RETRY_POLICY : null)}
+                                disabled={isRunning}
+                            />
+                            Retry
+                        </label>
+                        {retryPolicy && (
+                            <>
+                                <input
+                                    type="number"
+                                    min="2"
+                                    max="10"
+                                    value={retryPolicy.maxAttempts}
+                                    onChange={(e) => setRetryPolicy({ ...retryPolicy, maxAttempts: Math.min(10, Math.max(2, Math.floor(Number(e.target.value)) || 2)) })}
+                                    className="w-8 text-sm bg-transparent outline-none font-mono text-slate-700 text-right"
+                                    disabled={isRunning}
+                                    title="Attempts per row, including the first request"
+                                />
+                                <span>tries on</span>
+                                <input
+                                    type="text"
+                                    value={retryPolicy.statusCodes}
+                                    onChange={(e) => setRetryPolicy({ ...retryPolicy, statusCodes: e.target.value })}
+                                    className={`w-28 text-sm bg-transparent outline-none font-mono text-slate-700 border-b ${getInvalidStatusCodes(retryPolicy.statusCodes).length > 0 ? 'border-red-400' : 'border-transparent'}`}
+                                    disabled={isRunning}
+                                    title={getInvalidStatusCodes(retryPolicy.statusCodes).length > 0
+                                        ? `Ignored: ${getInvalidStatusCodes(retryPolicy.statusCodes).join(', ')}`
+                                        : 'Status codes to retry, e.g. 408, 500-599'}
+                                />
+                                <label className="flex items-center gap-1 whitespace-nowrap cursor-pointer" title="Retry requests that got no response (network or CORS errors, timeouts)">
+                                    <input
+                                        type="checkbox"
+                                        checked={retryPolicy.retryNetworkErrors}
+                                        onChange={(e) => setRetryPolicy({ ...retryPolicy, retryNetworkErrors: e.target.checked })}
+                                        disabled={isRunning}
+                                    />
+                                    network
+                                </label>
+                                <span>backoff</span>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="500"
+                                    value={retryPolicy.baseDelay}
+                                    onChange={(e) => setRetryPolicy({ ...retryPolicy, baseDelay: Math.max(0, Number(e.target.value) || 0) })}
+                                    className="w-14 text-sm bg-transparent outline-none font-mono text-slate-700 text-right"
+                                    disabled={isRunning}
+                                    title={`Wait in ms before the first retry; doubles per attempt with random jitter, up to ${retryPolicy.maxDelay / 1000}s`}
+                                />
+                            </>
+                        )}
+                    </div>
+
+                    {/* Current and effective rate */}
+                    <div className="text-xs font-mono text-slate-500 leading-tight" title="Requests per second sent over the last 10 seconds, and the most the settings allow">
+                        <div>now: {rateStatus ? formatRate(rateStatus.current) : '—'}</div>
+                        <div>max: {formatRate(getMaxRate(rateLimit, concurrency, Math.max(50, delay)))}</div>
+                        {rateStatus && rateStatus.pausedUntil > Date.now() && (
+                            <div className="text-amber-600">paused {Math.ceil((rateStatus.pausedUntil - Date.now()) / 1000)}s (server asked)</div>
+                        )}
+                    </div>
+
                     {progress === 100 && (
                         <button 
                            onClick={() => {
-                               const resetLogs = logs.map(l => ({ ...l, status: 'pending', response: undefined, statusCode: undefined })) as JobLog[];
+                               const resetLogs = logs.map(l => ({ ...l, status: 'pending', response: undefined, statusCode: undefined, uploadBytes: undefined, attempts: undefined, extracted: undefined, steps: undefined })) as JobLog[];
                                setLogs(resetLogs);
                            }}
                            className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-slate-600 hover:bg-slate-100"
@@ -280,10 +691,100 @@ const JobRunner: React.FC<Props> = ({ apiConfig, data, mappings, onBack }) => {
             </div>
         </div>
 
+        {/* Dry Run Results */}
+        {dryRun && (
+            <div className="bg-white rounded-xl shadow-sm border border-indigo-200 overflow-hidden">
+                <div className="p-4 border-b border-indigo-100 bg-indigo-50 flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-center gap-2 text-indigo-900">
+                        <FlaskConical size={18} className="text-indigo-600" />
+                        <span className="font-semibold">Dry Run</span>
+                        <span className="text-sm text-indigo-700">
+                            {dryRun.requests.length} requests for {dryRun.rowCount} rows, nothing sent
+                            {dryRun.blockedRows > 0 && <span className="text-red-600"> &middot; {dryRun.blockedRows} rows would fail</span>}
+                        </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <label className="flex items-center gap-1.5 text-xs text-indigo-800 cursor-pointer select-none" title="Write Authorization, cookie and API key headers into the exported files as they are">
+                            <input
+                                type="checkbox"
+                                checked={dryRun.includeSecrets}
+                                onChange={(e) => setDryRun(buildDryRun(steps, logs.map(l => l.data), files, e.target.checked))}
+                                className="rounded border-indigo-300 text-indigo-600 focus:ring-indigo-500 w-3.5 h-3.5"
+                            />
+                            Include secrets
+                        </label>
+                        <button onClick={() => downloadText(dryRunToJson(dryRun), 'dry-run.json', 'application/json')} className="text-xs font-medium bg-white border border-indigo-200 text-indigo-700 px-3 py-1.5 rounded hover:bg-indigo-100">JSON</button>
+                        <button onClick={() => downloadText(dryRunToCurlScript(dryRun), 'dry-run.sh', 'application/x-sh')} className="text-xs font-medium bg-white border border-indigo-200 text-indigo-700 px-3 py-1.5 rounded hover:bg-indigo-100">cURL script</button>
+                        <button onClick={() => downloadText(dryRunToHttpFile(dryRun), 'dry-run.http')} className="text-xs font-medium bg-white border border-indigo-200 text-indigo-700 px-3 py-1.5 rounded hover:bg-indigo-100">.http file</button>
+                        <button onClick={() => setDryRun(null)} className="p-1.5 hover:bg-indigo-100 rounded-full text-indigo-400 hover:text-indigo-700" title="Close">
+                            <X size={16} />
+                        </button>
+                    </div>
+                </div>
+                {dryRun.ruleErrors.length > 0 && (
+                    <div className="px-4 py-2 border-b border-red-100 bg-red-50 text-xs text-red-700 space-y-1">
+                        <p className="font-semibold">The job is blocked; no request would be sent until these are fixed:</p>
+                        {dryRun.ruleErrors.map((error, i) => (
+                            <div key={i}><XCircle size={10} className="inline mr-1 -mt-0.5" />{error}</div>
+                        ))}
+                    </div>
+                )}
+                <div className="max-h-80 overflow-auto divide-y divide-slate-100">
+                    {dryRun.requests.slice(0, DRY_RUN_PREVIEW_LIMIT).map((request, i) => (
+                        <div key={i} className={`px-4 py-2 font-mono text-xs ${request.problems.length > 0 ? 'bg-red-50' : ''}`}>
+                            <div className="flex items-center gap-2">
+                                <span className="text-slate-400 w-12 shrink-0">#{request.rowIndex + 1}</span>
+                                {request.stepLabel && <span className="text-slate-500 whitespace-nowrap">{request.stepLabel}</span>}
+                                <span className="font-bold text-slate-700">{request.method.toUpperCase()}</span>
+                                <span className="truncate text-slate-600" title={request.url}>{request.url}</span>
+                            </div>
+                            {request.body !== undefined && (
+                                <div className="ml-14 truncate text-slate-500" title={request.body}>{request.body}</div>
+                            )}
+                            {request.problems.map((p, j) => (
+                                <div key={j} className="ml-14 text-red-700"><XCircle size={10} className="inline mr-1 -mt-0.5" />{p}</div>
+                            ))}
+                            {request.warnings.map((w, j) => (
+                                <div key={j} className="ml-14 text-amber-700"><AlertTriangle size={10} className="inline mr-1 -mt-0.5" />{w}</div>
+                            ))}
+                        </div>
+                    ))}
+                    {dryRun.requests.length > DRY_RUN_PREVIEW_LIMIT && (
+                        <div className="px-4 py-2 text-xs text-slate-500">
+                            {dryRun.requests.length - DRY_RUN_PREVIEW_LIMIT} more requests are in the exported files.
+                        </div>
+                    )}
+                </div>
+            </div>
+        )}
+
         {/* Logs Table */}
         <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col h-[500px]">
             <div className="p-4 border-b border-slate-100 bg-slate-50 font-semibold text-slate-700 flex justify-between items-center">
                 <span>Execution Log</span>
+                <div className="flex items-center gap-2">
+                <div className="flex items-center text-xs font-medium bg-white border border-slate-200 rounded-lg text-slate-700 divide-x divide-slate-200" title="Download every row with its status, HTTP code, response, attempts, timestamps and latency">
+                    <span className="flex items-center gap-1 px-2 py-1.5 text-slate-500"><Download size={14} /> Results</span>
+                    {(Object.keys(RESULT_FORMAT_LABELS) as ResultFormat[]).map(format => (
+                        <button
+                            key={format}
+                            onClick={() => exportResults(format)}
+                            disabled={selectResultLogs(logs, exportFailedOnly).length === 0}
+                            className="px-2 py-1.5 hover:bg-slate-50 disabled:opacity-40 disabled:hover:bg-white last:rounded-r-lg"
+                        >
+                            {RESULT_FORMAT_LABELS[format]}
+                        </button>
+                    ))}
+                    <label className="flex items-center gap-1.5 px-2 py-1.5 font-normal text-slate-600 cursor-pointer select-none" title="Only rows that failed, to fix and import again">
+                        <input
+                            type="checkbox"
+                            checked={exportFailedOnly}
+                            onChange={(e) => setExportFailedOnly(e.target.checked)}
+                            className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500 w-3.5 h-3.5"
+                        />
+                        Failed only
+                    </label>
+                </div>
                 <label className="flex items-center gap-2 text-xs font-normal text-slate-600 cursor-pointer select-none bg-white border border-slate-200 px-3 py-1.5 rounded-lg hover:bg-slate-50 transition-colors">
                     <input
                         type="checkbox"
@@ -294,6 +795,7 @@ const JobRunner: React.FC<Props> = ({ apiConfig, data, mappings, onBack }) => {
                     <ArrowDownCircle size={14} className={autoScroll ? "text-indigo-600" : "text-slate-400"} />
                     Auto-scroll
                 </label>
+                </div>
             </div>
             <div className="flex-1 overflow-auto p-0 scroll-smooth" ref={logsContainerRef}>
                 <table className="w-full text-left border-collapse">
@@ -307,9 +809,21 @@ const JobRunner: React.FC<Props> = ({ apiConfig, data, mappings, onBack }) => {
                         </tr>
                     </thead>
                     <tbody className="text-sm">
-                        {logs.map((log) => (
-                            <tr key={log.id} className="border-b border-slate-100 hover:bg-slate-50 group">
-                                <td className="p-3 border-r border-slate-100 bg-slate-50/30">
+                        {logs.map((log) => {
+                            // What was sent last, else what the row's next request would be
+                            const sent = log.attempts?.[log.attempts.length - 1]?.request;
+                            const stepIndex = getCurrentStep(log, steps.length);
+                            const step = steps[stepIndex];
+                            const preview = sent ? null : getRequestPreview(log.data, stepIndex);
+                            const method = sent ? sent.method : preview.method;
+                            const url = sent ? sent.url : preview.url;
+                            const payloadText = sent ? sent.body ?? '(no body)' : preview.payloadText;
+                            const problems = preview ? preview.problems : [];
+                            const showUrl = url !== step.config.url || steps.length > 1;
+                            return (
+                            <React.Fragment key={log.id}>
+                            <tr className="border-b border-slate-100 hover:bg-slate-50 group cursor-pointer" onClick={() => setInspectedRow(log.id)}>
+                                <td className="p-3 border-r border-slate-100 bg-slate-50/30" onClick={(e) => e.stopPropagation()}>
                                     <div className="flex items-center gap-1 opacity-50 group-hover:opacity-100 transition-opacity">
                                         {!isRunning && (log.status === 'error' || log.status === 'pending') ? (
                                             <>
@@ -337,16 +851,70 @@ const JobRunner: React.FC<Props> = ({ apiConfig, data, mappings, onBack }) => {
                                     {log.status === 'pending' && <span className="inline-flex items-center gap-1.5 px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-600"><Clock size={12}/> Pending</span>}
                                     {log.status === 'success' && <span className="inline-flex items-center gap-1.5 px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700"><CheckCircle2 size={12}/> {log.statusCode}</span>}
                                     {log.status === 'error' && <span className="inline-flex items-center gap-1.5 px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700"><XCircle size={12}/> {log.statusCode || 'Err'}</span>}
+                                    {log.uploadBytes !== undefined && log.uploadBytes > 0 && (
+                                        <div className="text-[10px] text-slate-400 mt-1 font-mono" title="Request body size">&uarr; {formatBytes(log.uploadBytes)}</div>
+                                    )}
+                                    {log.steps && (
+                                        <div className="flex gap-0.5 mt-1">
+                                            {log.steps.map((p, i) => (
+                                                <span
+                                                    key={i}
+                                                    className={`w-2 h-2 rounded-full ${p.status === 'success' ? 'bg-green-500' : p.status === 'error' ? 'bg-red-500' : 'bg-slate-300'}`}
+                                                    title={`${formatStepLabel(steps, i)}: ${p.status}${p.statusCode ? ` (${p.statusCode})` : ''}`}
+                                                />
+                                            ))}
+                                        </div>
+                                    )}
+                                    {log.attempts && log.attempts.length > 1 && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); setExpandedRow(expandedRow === log.id ? null : log.id); }}
+                                            className="text-[10px] text-indigo-600 hover:underline mt-1 block"
+                                        >
+                                            {log.attempts.length} attempts
+                                        </button>
+                                    )}
                                 </td>
                                 <td className="p-3 font-mono text-slate-500">#{log.id + 1}</td>
-                                <td className="p-3 max-w-xs truncate font-mono text-xs text-slate-600" title={JSON.stringify(constructPayload(log.data, mappings))}>
-                                    {JSON.stringify(constructPayload(log.data, mappings))}
+                                <td
+                                    className={`p-3 max-w-xs truncate font-mono text-xs ${problems.length > 0 ? 'bg-red-50 text-red-700' : 'text-slate-600'}`}
+                                    title={[...problems, `${method} ${url}`, payloadText].join('\n')}
+                                >
+                                    {showUrl && <div className="truncate text-slate-400">{method} {url}</div>}
+                                    {problems.length > 0 && <AlertTriangle size={12} className="inline mr-1 -mt-0.5" />}
+                                    {payloadText}
                                 </td>
-                                <td className="p-3 max-w-xs truncate font-mono text-xs text-slate-500" title={log.response}>
-                                    {log.response || '-'}
+                                <td className="p-3 max-w-xs truncate font-mono text-xs text-slate-500" title={previewResponse(log.response)}>
+                                    {previewResponse(log.response)}
+                                    {log.extracted && (
+                                        <div className="truncate text-indigo-600 mt-0.5" title={Object.keys(log.extracted).map(key => `${key} = ${log.extracted![key]}`).join('\n')}>
+                                            {Object.keys(log.extracted).map(key => `${key}=${log.extracted![key]}`).join('  ')}
+                                        </div>
+                                    )}
                                 </td>
                             </tr>
-                        ))}
+                            {expandedRow === log.id && log.attempts && (
+                                <tr className="border-b border-slate-100 bg-slate-50/60">
+                                    <td colSpan={5} className="px-6 py-2">
+                                        <table className="w-full text-xs font-mono">
+                                            <tbody>
+                                                {log.attempts.map((attempt, i) => (
+                                                    <tr key={i} className="text-slate-600">
+                                                        <td className="py-0.5 pr-4 text-slate-400 w-10">#{i + 1}</td>
+                                                        {steps.length > 1 && <td className="py-0.5 pr-4 text-slate-500 whitespace-nowrap">{attempt.step !== undefined ? formatStepLabel(steps, attempt.step) : ''}</td>}
+                                                        <td className={`py-0.5 pr-4 w-16 ${attempt.statusCode >= 200 && attempt.statusCode < 300 ? 'text-green-700' : 'text-red-700'}`}>{attempt.statusCode || 'Err'}</td>
+                                                        <td className="py-0.5 pr-4 w-20 text-right">{attempt.latencyMs} ms</td>
+                                                        <td className="py-0.5 pr-4 w-24 text-slate-400">{attempt.timestamp.toLocaleTimeString()}</td>
+                                                        <td className="py-0.5 truncate max-w-md" title={previewResponse(attempt.response)}>{previewResponse(attempt.response)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </td>
+                                </tr>
+                            )}
+                            </React.Fragment>
+                            );
+                        })}
                     </tbody>
                 </table>
                 <div ref={logsEndRef} />
@@ -357,6 +925,16 @@ const JobRunner: React.FC<Props> = ({ apiConfig, data, mappings, onBack }) => {
             &larr; Back to Mapping
         </button>
 
+        {inspectedRow !== null && logs[inspectedRow] && (
+            <RequestInspector
+                key={inspectedRow}
+                log={logs[inspectedRow]}
+                steps={steps}
+                files={files}
+                onClose={() => setInspectedRow(null)}
+            />
+        )}
+
         {/* Edit Modal */}
         {editingRow && (
             <div className="fixed inset-0 z-[100] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
@@ -376,8 +954,8 @@ const JobRunner: React.FC<Props> = ({ apiConfig, data, mappings, onBack }) => {
                     
                     <div className="p-6 overflow-y-auto">
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                            {mappings.map(mapping => (
-                                <div key={mapping.jsonPath}>
+                            {editableMappings.map(mapping => (
+                                <div key={mapping.csvHeader}>
                                     <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1">
                                         {mapping.csvHeader} <span className="text-slate-300 font-normal normal-case">→ {mapping.jsonPath}</span>
                                     </label>
@@ -0,0 +1,273 @@
+import React, { useState, useEffect } from 'react';
+import { PathRename } from '../types';
+import { ChevronRight, ChevronDown, Plus, X } from 'lucide-react';
+
+type Segment = string | number;
+type NodeType = 'string' | 'number' | 'boolean' | 'null' | 'object' | 'array';
+
+interface Props {
+  value: Record<string, any>;
+  onChange: (value: Record<string, any>, rename?: PathRename) => void;
+}
+
+const getNodeType = (value: any): NodeType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'object') return 'object';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  return 'string';
+};
+
+const DEFAULT_VALUES: Record<NodeType, () => any> = {
+  string: () => '',
+  number: () => 0,
+  boolean: () => false,
+  null: () => null,
+  object: () => ({}),
+  array: () => [],
+};
+
+// Converts segments to the mapping path format: ['lines', 0, 'sku'] -> "lines[].sku"
+const toTemplatePath = (segments: Segment[]): string => {
+  return segments.reduce<string>((path, segment) => {
+    if (typeof segment === 'number') return path.endsWith('[]') ? path : `${path}[]`;
+    return path ? `${path}.${segment}` : segment;
+  }, '');
+};
+
+const setIn = (target: any, segments: Segment[], value: any): any => {
+  if (segments.length === 0) return value;
+  const [head, ...rest] = segments;
+  const copy: any = Array.isArray(target) ? [...target] : { ...target };
+  copy[head] = setIn(target?.[head], rest, value);
+  return copy;
+};
+
+const removeIn = (target: any, segments: Segment[]): any => {
+  const [head, ...rest] = segments;
+  if (rest.length > 0) {
+    const copy: any = Array.isArray(target) ? [...target] : { ...target };
+    copy[head] = removeIn(target[head], rest);
+    return copy;
+  }
+  if (Array.isArray(target)) return target.filter((_, i) => i !== head);
+  const { [head as string]: _removed, ...remaining } = target;
+  return remaining;
+};
+
+// Renames a key while keeping its position among its siblings
+const renameKey = (obj: Record<string, any>, oldKey: string, newKey: string): Record<string, any> => {
+  const result: Record<string, any> = {};
+  Object.keys(obj).forEach(k => {
+    result[k === oldKey ? newKey : k] = obj[k];
+  });
+  return result;
+};
+
+const getIn = (target: any, segments: Segment[]): any => segments.reduce((node, s) => node?.[s], target);
+
+const KeyInput: React.FC<{ name: string, siblings: string[], onCommit: (newName: string) => void }> = ({ name, siblings, onCommit }) => {
+  const [draft, setDraft] = useState(name);
+  useEffect(() => setDraft(name), [name]);
+
+  const trimmed = draft.trim();
+  const error = !trimmed
+    ? 'Key cannot be empty'
+    : trimmed !== name && siblings.includes(trimmed)
+      ? 'Duplicate key'
+      : /[.\[\]]/.test(trimmed)
+        ? 'Keys cannot contain ".", "[" or "]"'
+        : null;
+
+  const commit = () => {
+    if (error) return;
+    if (trimmed !== name) onCommit(trimmed);
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      title={error || undefined}
+      className={`w-36 text-xs font-mono p-1 border rounded outline-none focus:ring-1 ${
+        error ? 'border-red-300 bg-red-50 text-red-700 focus:ring-red-400' : 'border-slate-200 text-slate-700 focus:ring-indigo-500'
+      }`}
+    />
+  );
+};
+
+const PrimitiveInput: React.FC<{ value: any, onCommit: (value: any) => void }> = ({ value, onCommit }) => {
+  const type = getNodeType(value);
+  const [draft, setDraft] = useState(String(value));
+  useEffect(() => setDraft(String(value)), [value]);
+
+  if (type === 'null') {
+    return <span className="text-xs font-mono text-slate-400 italic px-1">null</span>;
+  }
+
+  if (type === 'boolean') {
+    return (
+      <select
+        value={String(value)}
+        onChange={(e) => onCommit(e.target.value === 'true')}
+        className="text-xs p-1 border border-slate-200 rounded bg-white outline-none focus:border-indigo-500"
+      >
+        <option value="true">true</option>
+        <option value="false">false</option>
+      </select>
+    );
+  }
+
+  const isInvalidNumber = type === 'number' && (draft.trim() === '' || isNaN(Number(draft)));
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        if (type === 'string') onCommit(e.target.value);
+        else if (e.target.value.trim() !== '' && !isNaN(Number(e.target.value))) onCommit(Number(e.target.value));
+      }}
+      title={isInvalidNumber ? 'Not a valid number' : undefined}
+      className={`flex-1 min-w-0 text-xs font-mono p-1 border rounded outline-none focus:ring-1 ${
+        isInvalidNumber ? 'border-red-300 bg-red-50 text-red-700 focus:ring-red-400' : 'border-slate-200 text-slate-700 focus:ring-indigo-500'
+      }`}
+    />
+  );
+};
+
+interface NodeProps {
+  root: Record<string, any>;
+  segments: Segment[];
+  onChange: Props['onChange'];
+  depth: number;
+}
+
+const TreeNode: React.FC<NodeProps> = ({ root, segments, onChange, depth }) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const value = getIn(root, segments);
+  const type = getNodeType(value);
+  const key = segments[segments.length - 1];
+  const parentSegments = segments.slice(0, -1);
+  const parent = getIn(root, parentSegments);
+  const isContainer = type === 'object' || type === 'array';
+
+  const handleRename = (newKey: string) => {
+    const renamed = setIn(root, parentSegments, renameKey(parent, key as string, newKey));
+    onChange(renamed, {
+      from: toTemplatePath(segments),
+      to: toTemplatePath([...parentSegments, newKey]),
+    });
+  };
+
+  const handleTypeChange = (newType: NodeType) => {
+    onChange(setIn(root, segments, DEFAULT_VALUES[newType]()));
+  };
+
+  const addChild = () => {
+    if (type === 'array') {
+      // New items follow the shape of the first one
+      const template = value.length > 0 ? JSON.parse(JSON.stringify(value[0])) : '';
+      onChange(setIn(root, segments, [...value, template]));
+    } else {
+      let name = 'newKey';
+      let counter = 1;
+      while (name in value) name = `newKey${counter++}`;
+      onChange(setIn(root, segments, { ...value, [name]: '' }));
+    }
+    setCollapsed(false);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-1.5 py-0.5 group" style={{ paddingLeft: depth * 16 }}>
+        <button
+          onClick={() => setCollapsed(!collapsed)}
+          className={`w-4 text-slate-400 hover:text-slate-700 ${isContainer ? '' : 'invisible'}`}
+        >
+          {collapsed ? <ChevronRight size={12} /> : <ChevronDown size={12} />}
+        </button>
+
+        {typeof key === 'number' ? (
+          <span className="w-36 text-xs font-mono text-slate-400 px-1">[{key}]</span>
+        ) : (
+          <KeyInput name={key} siblings={Object.keys(parent)} onCommit={handleRename} />
+        )}
+
+        <select
+          value={type}
+          onChange={(e) => handleTypeChange(e.target.value as NodeType)}
+          className="w-20 text-[10px] p-1 border border-slate-200 rounded bg-white outline-none focus:border-indigo-500 text-slate-500"
+        >
+          <option value="string">string</option>
+          <option value="number">number</option>
+          <option value="boolean">boolean</option>
+          <option value="null">null</option>
+          <option value="object">object</option>
+          <option value="array">array</option>
+        </select>
+
+        {isContainer ? (
+          <div className="flex-1 flex items-center gap-2">
+            <span className="text-[10px] text-slate-400 font-mono">
+              {type === 'array' ? `[${value.length}]` : `{${Object.keys(value).length}}`}
+            </span>
+            <button onClick={addChild} className="text-[10px] text-indigo-600 hover:bg-indigo-50 px-1.5 py-0.5 rounded flex items-center gap-0.5">
+              <Plus size={10} /> {type === 'array' ? 'Item' : 'Key'}
+            </button>
+          </div>
+        ) : (
+          <PrimitiveInput value={value} onCommit={(v) => onChange(setIn(root, segments, v))} />
+        )}
+
+        <button
+          onClick={() => onChange(removeIn(root, segments))}
+          className="text-slate-300 hover:text-red-500 p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+          title="Remove"
+        >
+          <X size={12} />
+        </button>
+      </div>
+
+      {isContainer && !collapsed && (
+        type === 'array'
+          ? value.map((_: any, i: number) => (
+              <TreeNode key={i} root={root} segments={[...segments, i]} onChange={onChange} depth={depth + 1} />
+            ))
+          : Object.keys(value).map(k => (
+              <TreeNode key={k} root={root} segments={[...segments, k]} onChange={onChange} depth={depth + 1} />
+            ))
+      )}
+    </div>
+  );
+};
+
+const JsonTreeEditor: React.FC<Props> = ({ value, onChange }) => {
+  const addRootKey = () => {
+    let name = 'newKey';
+    let counter = 1;
+    while (name in value) name = `newKey${counter++}`;
+    onChange({ ...value, [name]: '' });
+  };
+
+  return (
+    <div className="space-y-1">
+      {Object.keys(value).length === 0 && (
+        <div className="text-xs text-slate-400 italic p-2">The body is empty.</div>
+      )}
+      {Object.keys(value).map(k => (
+        <TreeNode key={k} root={value} segments={[k]} onChange={onChange} depth={0} />
+      ))}
+      <button onClick={addRootKey} className="mt-1 flex items-center gap-1 text-xs font-medium text-indigo-600 hover:bg-indigo-50 px-2 py-1 rounded">
+        <Plus size={12} /> Add Key
+      </button>
+    </div>
+  );
+};
+
+export default JsonTreeEditor;
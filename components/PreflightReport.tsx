@@ -0,0 +1,144 @@
+import React, { useState, useMemo } from 'react';
+import { PreflightResult, RULE_LABELS } from '../utils/validation';
+import { ShieldCheck, ArrowLeft, ArrowRight, AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface Props {
+  result: PreflightResult;
+  onBack: () => void;
+  onContinue: () => void;
+}
+
+type SeverityFilter = 'all' | 'error' | 'warning';
+
+const MAX_LISTED = 500;
+
+const PreflightReport: React.FC<Props> = ({ result, onBack, onContinue }) => {
+  const [filter, setFilter] = useState<SeverityFilter>('all');
+
+  const errorCount = result.violations.filter(v => v.severity === 'error').length;
+  const warningCount = result.violations.length - errorCount;
+
+  // Ordered by row, then column, so problems in the same row are listed together
+  const listed = useMemo(() => {
+    return result.violations
+      .filter(v => filter === 'all' || v.severity === filter)
+      .slice()
+      .sort((a, b) => a.rowIndex - b.rowIndex || (a.column || a.jsonPath).localeCompare(b.column || b.jsonPath));
+  }, [result, filter]);
+
+  const passed = result.violations.length === 0 && result.ruleErrors.length === 0;
+
+  return (
+    <div className="w-full max-w-6xl mx-auto space-y-6 animate-in fade-in slide-in-from-right-4 duration-500">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex items-center gap-3">
+          <div className="p-2 bg-indigo-100 rounded-lg text-indigo-600">
+            <ShieldCheck size={24} />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-slate-800">Pre-flight Check</h2>
+            <p className="text-slate-500 text-sm">Every row was built into a payload and checked against the field rules. Nothing has been sent yet.</p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="p-4 rounded-lg border border-slate-200 bg-slate-50">
+              <div className="text-xs uppercase tracking-wider font-bold text-slate-500">Rows Checked</div>
+              <div className="text-2xl font-bold text-slate-800">{result.rowCount}</div>
+            </div>
+            <div className={`p-4 rounded-lg border ${result.errorRows > 0 ? 'border-red-200 bg-red-50' : 'border-slate-200 bg-slate-50'}`}>
+              <div className="text-xs uppercase tracking-wider font-bold text-red-600">Rows With Errors</div>
+              <div className="text-2xl font-bold text-red-700">{result.errorRows}</div>
+            </div>
+            <div className={`p-4 rounded-lg border ${result.warningRows > 0 ? 'border-amber-200 bg-amber-50' : 'border-slate-200 bg-slate-50'}`}>
+              <div className="text-xs uppercase tracking-wider font-bold text-amber-600">Rows With Warnings Only</div>
+              <div className="text-2xl font-bold text-amber-700">{result.warningRows}</div>
+            </div>
+          </div>
+
+          {result.ruleErrors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 text-red-700 p-3 rounded-lg text-sm space-y-1">
+              <div className="font-semibold">Some rules cannot be evaluated. Fix them in the mapping step:</div>
+              {result.ruleErrors.map((err, idx) => (
+                <div key={idx} className="flex items-start gap-2">
+                  <AlertCircle size={14} className="mt-0.5 shrink-0" />
+                  <span className="font-mono text-xs">{err}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {passed ? (
+            <div className="flex items-center gap-3 p-4 rounded-lg bg-green-50 border border-green-200 text-green-700">
+              <CheckCircle2 size={20} />
+              <span className="font-medium">All {result.rowCount} rows passed the validation rules.</span>
+            </div>
+          ) : result.violations.length > 0 && (
+            <div className="border border-slate-200 rounded-lg overflow-hidden">
+              <div className="p-2 bg-slate-50 border-b border-slate-200 flex items-center justify-between">
+                <div className="flex bg-slate-100 rounded-lg p-0.5 text-xs">
+                  {([['all', `All (${result.violations.length})`], ['error', `Errors (${errorCount})`], ['warning', `Warnings (${warningCount})`]] as [SeverityFilter, string][]).map(([value, label]) => (
+                    <button
+                      key={value}
+                      onClick={() => setFilter(value)}
+                      className={`px-3 py-1 rounded-md transition-colors ${filter === value ? 'bg-white shadow-sm text-indigo-700 font-medium' : 'text-slate-500'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {listed.length > MAX_LISTED && <span className="text-xs text-slate-400">Showing the first {MAX_LISTED} of {listed.length}</span>}
+              </div>
+              <div className="max-h-[450px] overflow-y-auto">
+                <table className="w-full text-left text-xs">
+                  <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                    <tr>
+                      <th className="p-2 w-16">Row</th>
+                      <th className="p-2 w-40">Column</th>
+                      <th className="p-2 w-48">Field</th>
+                      <th className="p-2 w-28">Rule</th>
+                      <th className="p-2">Problem</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {listed.slice(0, MAX_LISTED).map((v, idx) => (
+                      <tr key={idx} className={v.severity === 'error' ? 'bg-red-50/40' : 'bg-amber-50/40'}>
+                        <td className="p-2 font-mono text-slate-500">#{v.rowIndex + 1}</td>
+                        <td className="p-2 text-slate-700 truncate max-w-[160px]" title={v.column}>{v.column || <span className="text-slate-400 italic">fixed value</span>}</td>
+                        <td className="p-2 font-mono text-slate-600 truncate max-w-[190px]" title={v.jsonPath}>{v.jsonPath || '—'}</td>
+                        <td className="p-2">
+                          <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-bold ${v.severity === 'error' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}>
+                            {v.severity === 'error' ? <AlertCircle size={10} /> : <AlertTriangle size={10} />}
+                            {RULE_LABELS[v.rule]}
+                          </span>
+                        </td>
+                        <td className="p-2 text-slate-700">{v.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center pt-4">
+        <button onClick={onBack} className="flex items-center gap-2 px-6 py-2.5 rounded-lg font-medium text-slate-600 hover:bg-slate-100"><ArrowLeft size={18} /> Back to Mapping</button>
+        <div className="flex items-center gap-3">
+          {result.blocked && <span className="text-sm text-red-600">Fix the errors above to continue.</span>}
+          <button
+            onClick={onContinue}
+            disabled={result.blocked}
+            className={`flex items-center gap-2 px-6 py-2.5 rounded-lg font-medium text-white shadow-lg transition-all disabled:opacity-50 ${!result.blocked && warningCount > 0 ? 'bg-amber-500 hover:bg-amber-600 shadow-amber-500/20' : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-500/20'}`}
+          >
+            {!result.blocked && warningCount > 0 ? 'Continue Despite Warnings' : 'Continue to Upload'} <ArrowRight size={18} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreflightReport;
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { JobLog, RequestStep } from '../types';
+import { buildRequest, maskSecretHeaders } from '../utils/requestBuilder';
+import { encodeBody, previewBody } from '../utils/bodyEncoders';
+import { buildRequestCurl } from '../utils/curlParser';
+import { FileIndex, formatBytes } from '../utils/fileAttachments';
+import { formatStepLabel } from '../utils/requestSteps';
+import { X, Check, Send, Inbox, Terminal } from 'lucide-react';
+
+interface Props {
+  log: JobLog;
+  steps: RequestStep[];
+  files: FileIndex;
+  onClose: () => void;
+}
+
+// JSON bodies are indented; anything else is shown as received
+const formatBody = (text: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+};
+
+const HeaderTable: React.FC<{ headers: Record<string, string> }> = ({ headers }) => {
+  const keys = Object.keys(headers);
+  if (keys.length === 0) return <p className="text-xs text-slate-400 italic">No headers</p>;
+  return (
+    <table className="w-full text-xs font-mono">
+      <tbody>
+        {keys.map(key => (
+          <tr key={key} className="border-b border-slate-100 last:border-0">
+            <td className="py-1 pr-3 text-slate-500 whitespace-nowrap align-top">{key}</td>
+            <td className="py-1 text-slate-700 break-all">{headers[key]}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const BodyBlock: React.FC<{ text?: string }> = ({ text }) => (
+  text === undefined || text === ''
+    ? <p className="text-xs text-slate-400 italic">No body</p>
+    : <pre className="text-xs font-mono bg-slate-900 text-slate-100 rounded-lg p-3 overflow-auto max-h-80 whitespace-pre-wrap break-all">{formatBody(text)}</pre>
+);
+
+/**
+ * Side panel with the requests sent for a row and the responses they got,
+ * one attempt at a time. Rows that were not sent yet show the request the
+ * job would send.
+ */
+const RequestInspector: React.FC<Props> = ({ log, steps, files, onClose }) => {
+  const attempts = log.attempts || [];
+  // Follows the latest attempt while the row is still being sent, until one is picked
+  const [picked, setPicked] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+  const selected = picked ?? attempts.length - 1;
+  const attempt = attempts[selected];
+
+  // Without an attempt, the request for the step the row is at
+  let request = attempt?.request;
+  if (!attempt) {
+    const stepIndex = Math.max(0, log.steps ? log.steps.findIndex(p => p.status !== 'success') : 0);
+    const step = steps[stepIndex];
+    const built = buildRequest(step.config, log.data, step.mappings, files);
+    const headers = maskSecretHeaders(built.headers);
+    const body = built.hasBody ? encodeBody(step.config, built.payload) : undefined;
+    request = {
+      method: built.method,
+      url: built.url,
+      headers,
+      body: body === undefined ? undefined : typeof body === 'string' ? body : previewBody(step.config, built.payload),
+      curl: buildRequestCurl(step.config, { ...built, headers }),
+    };
+  }
+  const responseBody = attempt ? attempt.responseBody ?? attempt.response : undefined;
+
+  const copyCurl = async () => {
+    if (!request) return;
+    try {
+      await navigator.clipboard.writeText(request.curl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error: any) {
+      alert(`Failed to copy to the clipboard.\n\n${error.message}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] flex justify-end bg-slate-900/30 animate-in fade-in duration-200" onClick={onClose}>
+      <div className="h-full w-full max-w-2xl bg-white shadow-2xl flex flex-col animate-in slide-in-from-right-8 duration-200" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
+          <div>
+            <h3 className="font-bold text-slate-800">Row #{log.id + 1}</h3>
+            <p className="text-xs text-slate-500">
+              {attempts.length === 0 ? 'Not sent yet; showing the request that would be sent' : `${attempts.length} ${attempts.length === 1 ? 'attempt' : 'attempts'}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        {attempts.length > 1 && (
+          <div className="px-4 py-2 border-b border-slate-100 flex flex-wrap gap-1">
+            {attempts.map((a, i) => (
+              <button
+                key={i}
+                onClick={() => setPicked(i)}
+                className={`px-2 py-1 rounded text-xs font-mono border ${i === selected ? 'bg-indigo-50 border-indigo-300 text-indigo-800' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                title={a.step !== undefined ? formatStepLabel(steps, a.step) : undefined}
+              >
+                #{i + 1} <span className={a.statusCode >= 200 && a.statusCode < 300 ? 'text-green-700' : 'text-red-700'}>{a.statusCode || 'Err'}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {request ? (
+            <section className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="flex items-center gap-2 text-xs uppercase tracking-wider font-bold text-slate-500">
+                  <Send size={14} className="text-indigo-600" /> Request
+                  {attempt?.step !== undefined && steps.length > 1 && <span className="normal-case font-medium text-slate-400">{formatStepLabel(steps, attempt.step)}</span>}
+                </h4>
+                <button
+                  onClick={copyCurl}
+                  className="flex items-center gap-1 text-xs font-medium bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-2 py-1 rounded transition-colors"
+                  title="Credential headers stay masked; fill them in before running the command"
+                >
+                  {copied ? <Check size={12} className="text-green-600" /> : <Terminal size={12} />} {copied ? 'Copied' : 'Copy as cURL'}
+                </button>
+              </div>
+              <div className="font-mono text-xs break-all">
+                <span className="font-bold text-slate-800">{request.method.toUpperCase()}</span> <span className="text-slate-600">{request.url}</span>
+              </div>
+              <HeaderTable headers={request.headers} />
+              <BodyBlock text={request.body} />
+            </section>
+          ) : (
+            <p className="text-xs text-slate-400 italic">This attempt was recorded before requests were stored.</p>
+          )}
+
+          {attempt && (
+            <section className="space-y-3">
+              <h4 className="flex items-center gap-2 text-xs uppercase tracking-wider font-bold text-slate-500">
+                <Inbox size={14} className="text-indigo-600" /> Response
+              </h4>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs font-mono text-slate-600">
+                <span className={attempt.statusCode >= 200 && attempt.statusCode < 300 ? 'text-green-700 font-bold' : 'text-red-700 font-bold'}>
+                  {attempt.statusCode || 'No response'}
+                </span>
+                <span>{attempt.latencyMs} ms</span>
+                {attempt.responseBytes !== undefined && <span>{formatBytes(attempt.responseBytes)}</span>}
+                <span className="text-slate-400">{new Date(attempt.timestamp).toLocaleString()}</span>
+              </div>
+              {/* Why the job counted the response as failed */}
+              {attempt.responseBody !== undefined && (
+                <p className="text-xs text-red-700 bg-red-50 border border-red-100 rounded p-2 break-words">
+                  {attempt.response.split(' | ')[0]}
+                </p>
+              )}
+              {attempt.responseHeaders && <HeaderTable headers={attempt.responseHeaders} />}
+              <BodyBlock text={responseBody} />
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RequestInspector;
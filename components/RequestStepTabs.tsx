@@ -0,0 +1,74 @@
+import React from 'react';
+import { RequestStep } from '../types';
+import { getChainedColumns } from '../utils/requestSteps';
+import { Plus, X, Link2 } from 'lucide-react';
+
+interface Props {
+  steps: RequestStep[];
+  activeIndex: number;
+  onSelect: (index: number) => void;
+  onAdd: () => void;
+  onRemove: (index: number) => void;
+  onRename: (index: number, name: string) => void;
+}
+
+const RequestStepTabs: React.FC<Props> = ({ steps, activeIndex, onSelect, onAdd, onRemove, onRename }) => {
+  const chained = getChainedColumns(steps, activeIndex);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto bg-white rounded-xl shadow-sm border border-slate-200 p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Link2 size={16} className="text-indigo-600" />
+        <span className="text-xs uppercase tracking-wider font-bold text-slate-500 mr-1">Requests per row</span>
+        {steps.map((step, idx) => (
+          <div
+            key={step.id}
+            className={`flex items-center gap-1 pl-2 pr-1 py-1 rounded-lg border text-xs ${idx === activeIndex ? 'bg-indigo-50 border-indigo-300 text-indigo-800' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50 cursor-pointer'}`}
+            onClick={() => idx !== activeIndex && onSelect(idx)}
+          >
+            <span className="font-bold">{idx + 1}.</span>
+            {idx === activeIndex ? (
+              <input
+                type="text"
+                value={step.name}
+                onChange={(e) => onRename(idx, e.target.value)}
+                className="w-36 bg-transparent outline-none font-medium"
+                title="Step name"
+              />
+            ) : (
+              <span className="max-w-[9rem] truncate">{step.name || `Step ${idx + 1}`}</span>
+            )}
+            {steps.length > 1 && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onRemove(idx); }}
+                className="p-0.5 text-slate-300 hover:text-red-500"
+                title="Remove this step"
+              >
+                <X size={12} />
+              </button>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={onAdd}
+          className="flex items-center gap-1 text-xs font-medium bg-indigo-50 text-indigo-700 px-3 py-1 rounded hover:bg-indigo-100 transition-colors"
+          title="Send another request for every row after the previous one succeeded"
+        >
+          <Plus size={12} /> Add Step
+        </button>
+      </div>
+      {steps.length > 1 && (
+        <p className="text-xs text-slate-500">
+          Steps run in order for every row and the row stops at the first failed step.
+          {activeIndex === 0
+            ? ' Add response extractors here to pass values, such as a created ID, to the next steps.'
+            : chained.length > 0
+              ? <> This step can map {chained.map(c => <span key={c.column} className="font-mono text-indigo-700 bg-indigo-50 px-1 rounded mx-0.5">{c.column}</span>)} from earlier responses.</>
+              : ' Earlier steps have no response extractors yet, so only data columns can be mapped.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RequestStepTabs;
@@ -0,0 +1,149 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { ApiConfig } from '../types';
+import { ImportCandidate, SpecSource, parseSpecDocument } from '../utils/specImporters';
+import { Upload, Search, AlertCircle, ArrowRight, FileJson } from 'lucide-react';
+
+interface Props {
+  source: SpecSource;
+  onSelect: (config: ApiConfig) => void;
+}
+
+const SOURCE_LABELS: Record<SpecSource, { title: string, hint: string, accept: string }> = {
+  postman: { title: 'Postman Collection', hint: 'Export the collection as v2.1 JSON.', accept: '.json' },
+  har: { title: 'HAR File', hint: 'DevTools → Network → "Save all as HAR".', accept: '.har,.json' },
+  openapi: { title: 'OpenAPI 3 Document', hint: 'JSON format. Convert YAML documents to JSON first.', accept: '.json' },
+};
+
+const METHOD_COLORS: Record<string, string> = {
+  GET: 'text-blue-600 bg-blue-50',
+  POST: 'text-green-600 bg-green-50',
+  PUT: 'text-amber-600 bg-amber-50',
+  PATCH: 'text-purple-600 bg-purple-50',
+  DELETE: 'text-red-600 bg-red-50',
+};
+
+const SpecImporter: React.FC<Props> = ({ source, onSelect }) => {
+  const [rawText, setRawText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+  const [search, setSearch] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const labels = SOURCE_LABELS[source];
+
+  const loadDocument = (text: string) => {
+    setError(null);
+    try {
+      const result = parseSpecDocument(text, source);
+      setCandidates(result.candidates);
+    } catch (e: any) {
+      setCandidates([]);
+      setError(e.message || 'Failed to read the document.');
+    }
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    setRawText(text);
+    loadDocument(text);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return candidates;
+    return candidates.filter(c =>
+      c.label.toLowerCase().includes(term) ||
+      c.config.url.toLowerCase().includes(term) ||
+      (c.group || '').toLowerCase().includes(term)
+    );
+  }, [candidates, search]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-sm text-slate-500">
+          <span className="font-semibold text-slate-700">{labels.title}</span> — {labels.hint}
+        </div>
+        <input type="file" ref={fileInputRef} accept={labels.accept} className="hidden" onChange={handleFileUpload} />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-2 text-xs font-medium bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-3 py-1.5 rounded transition-colors shrink-0"
+        >
+          <Upload size={14} className="text-blue-600" /> {fileName ? 'Replace File' : 'Upload File'}
+        </button>
+      </div>
+
+      {candidates.length === 0 ? (
+        <div className="relative">
+          <textarea
+            value={rawText}
+            onChange={(e) => { setRawText(e.target.value); setFileName(null); }}
+            onBlur={() => rawText.trim() && loadDocument(rawText)}
+            placeholder={`...or paste the ${labels.title} JSON here`}
+            className="w-full h-48 font-mono text-sm bg-slate-900 text-slate-50 p-4 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none resize-none"
+            spellCheck={false}
+          />
+          {error && (
+            <div className="absolute bottom-4 left-4 right-4 bg-red-500/10 border border-red-500/20 text-red-600 p-3 rounded flex items-start gap-2 text-sm backdrop-blur-sm">
+              <AlertCircle size={16} className="mt-0.5 shrink-0" />
+              <span className="break-words max-h-20 overflow-y-auto w-full">{error}</span>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="border border-slate-200 rounded-lg overflow-hidden">
+          <div className="p-2 border-b border-slate-100 bg-slate-50 flex items-center gap-2">
+            <Search size={14} className="text-slate-400 ml-1" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={`Filter ${candidates.length} requests...`}
+              className="flex-1 text-sm bg-transparent outline-none text-slate-700"
+            />
+            <button
+              onClick={() => { setCandidates([]); setRawText(''); setFileName(null); setSearch(''); }}
+              className="text-xs text-slate-500 hover:text-slate-800 px-2"
+            >
+              Clear
+            </button>
+          </div>
+          <div className="max-h-72 overflow-y-auto divide-y divide-slate-100">
+            {filtered.map(candidate => (
+              <button
+                key={candidate.id}
+                onClick={() => onSelect(candidate.config)}
+                className="w-full text-left p-3 hover:bg-blue-50/60 flex items-center gap-3 group transition-colors"
+              >
+                <span className={`text-[10px] font-bold px-2 py-0.5 rounded w-16 text-center shrink-0 ${METHOD_COLORS[candidate.config.method] || 'text-slate-600 bg-slate-100'}`}>
+                  {candidate.config.method}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-slate-800 font-medium truncate">{candidate.label}</div>
+                  <div className="text-xs text-slate-400 font-mono truncate">
+                    {candidate.group && <span className="text-slate-500 mr-2">{candidate.group}</span>}
+                    {candidate.config.url}
+                  </div>
+                </div>
+                {Object.keys(candidate.config.bodyTemplate).length > 0 && (
+                  <FileJson size={14} className="text-slate-300 shrink-0" />
+                )}
+                <ArrowRight size={16} className="text-slate-300 group-hover:text-blue-600 shrink-0" />
+              </button>
+            ))}
+            {filtered.length === 0 && (
+              <div className="p-6 text-center text-sm text-slate-400">No requests match "{search}".</div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpecImporter;
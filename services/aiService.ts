@@ -1,23 +1,6 @@
 import { GoogleGenAI } from "@google/genai";
 import { ApiConfig } from "../types";
-
-// Helper to remove keys starting with _ recursively
-const cleanInternalKeys = (obj: any): any => {
-  if (Array.isArray(obj)) {
-    return obj.map(cleanInternalKeys);
-  }
-  if (obj !== null && typeof obj === 'object') {
-    const newObj: any = {};
-    for (const key in obj) {
-      // Remove keys starting with _ (e.g., _comment, __internal)
-      if (!key.startsWith('_')) {
-        newObj[key] = cleanInternalKeys(obj[key]);
-      }
-    }
-    return newObj;
-  }
-  return obj;
-};
+import { cleanInternalKeys } from "../utils/dataUtils";
 
 export const parseCurlWithGemini = async (curlString: string, providedApiKey?: string): Promise<ApiConfig> => {
   // Prioritize provided key (from UI), then environment variable
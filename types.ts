@@ -1,15 +1,90 @@
+export type QueryArrayStyle = 'repeat' | 'comma' | 'bracket'; // a=1&a=2 | a=1,2 | a[]=1&a[]=2
+export type QueryObjectStyle = 'dot' | 'bracket';             // a.b=1 | a[b]=1
+
+export interface QueryOptions {
+  arrayStyle: QueryArrayStyle;
+  objectStyle: QueryObjectStyle;
+}
+
+// How the mapped body is serialized: JSON, application/x-www-form-urlencoded, multipart/form-data or XML
+export type BodyEncoding = 'json' | 'form' | 'multipart' | 'xml';
+
+export interface XmlOptions {
+  rootElement: string;     // Element that wraps the payload, e.g. "Order"
+  attributePrefix: string; // Keys starting with this become attributes, e.g. "@id"; "#text" holds element text
+}
+
+// A type as written in a GraphQL variable definition or introspection result
+export interface GraphQLTypeRef {
+  kind: 'NAMED' | 'LIST' | 'NON_NULL';
+  name?: string;            // Set for NAMED
+  ofType?: GraphQLTypeRef;  // Set for LIST and NON_NULL
+}
+
+export interface GraphQLInputType {
+  kind: 'SCALAR' | 'ENUM' | 'INPUT_OBJECT';
+  fields?: { name: string; type: GraphQLTypeRef }[];
+  enumValues?: string[];
+}
+
+export interface GraphQLConfig {
+  query: string;                                  // The operation document
+  operationName?: string;                         // Needed when the document holds several operations
+  inputTypes?: Record<string, GraphQLInputType>;  // From an introspection result; expands input object variables
+}
+
+export type SuccessRuleKind = 'status' | 'json_path' | 'body_regex' | 'header';
+export type JsonPathOperator = 'exists' | 'not_exists' | 'equals' | 'not_equals';
+
+// A check every response must pass to count as success. Without a status rule any 2xx status is required.
+export interface SuccessRule {
+  kind: SuccessRuleKind;
+  statusCodes?: string;        // status: codes and ranges, e.g. "200-299, 304"
+  path?: string;               // json_path: e.g. "$.data.id" or "$.items[0].sku"
+  operator?: JsonPathOperator; // json_path
+  expected?: string;           // json_path equals/not_equals: read as JSON when it parses (true, 1, "x"), else as text
+  pattern?: string;            // body_regex, or an optional value pattern for header
+  header?: string;             // header: name of a header the response must carry
+}
+
+export type ExtractorKind = 'json_path' | 'regex';
+
+// Copies a value from each response into a column of the row
+export interface ResponseExtractor {
+  column: string;     // Created on the rows when it doesn't exist yet
+  kind: ExtractorKind;
+  expression: string; // JSON path such as "$.data.id", or a regex whose first group (else the whole match) is taken
+}
+
 export interface ApiConfig {
   method: string;
-  url: string;
+  url: string; // May contain {placeholder} segments filled per row by path mappings
   headers: Record<string, string>;
   bodyTemplate: Record<string, any>; // The structure extracted from cURL
+  query?: QueryOptions;              // How fields are written to the query string; defaults to repeat/dot
+  sendBodyWithDelete?: boolean;      // DELETE sends its fields in the query string unless set
+  bodyEncoding?: BodyEncoding;       // Defaults to 'json'
+  xml?: XmlOptions;                  // Used when bodyEncoding is 'xml'
+  graphql?: GraphQLConfig;           // When set, bodyTemplate holds the operation's variables
+  successRules?: SuccessRule[];     // All must pass; defaults to a 2xx status
+  extractors?: ResponseExtractor[];
+}
+
+// One request in the chain sent for every row. Later steps can map the
+// columns that earlier steps' response extractors fill.
+export interface RequestStep {
+  id: string;
+  name: string;
+  config: ApiConfig;
+  mappings: Mapping[];
 }
 
 export interface CsvRow {
   [key: string]: string;
 }
 
-export type DataType = 'string' | 'number' | 'boolean' | 'object' | 'array_string' | 'array_number' | 'array_object';
+// 'file' values name one of the attached files, which is uploaded as a multipart part
+export type DataType = 'string' | 'number' | 'boolean' | 'object' | 'array_string' | 'array_number' | 'array_object' | 'file';
 
 export interface TransformationConfig {
   enabled: boolean;
@@ -18,20 +93,96 @@ export interface TransformationConfig {
   itemIndex?: number; // Optional: Which position to take (0, 1, 2...)
 }
 
+// What to send for an empty cell: leave the key out, null, "", the type's zero value (the default), or emptyLiteral
+export type EmptyValuePolicy = 'omit' | 'null' | 'empty_string' | 'type_default' | 'literal';
+
 export interface InternalFieldMapping {
     key: string;       // e.g. "Depart"
     index: number;     // e.g. 0
     dataType: DataType;// e.g. "string"
+    emptyPolicy?: EmptyValuePolicy;
+    emptyLiteral?: string;
 }
 
+// What to send when a value cannot be converted to the field's type
+export type CastFailurePolicy = 'fail_row' | 'use_default' | 'send_null' | 'omit_field';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationRules {
+  required?: boolean;
+  pattern?: string;         // Regular expression every value must match
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+  allowedValues?: string[];
+  unique?: boolean;         // No two rows may produce the same value
+  severity?: ValidationSeverity; // Defaults to 'error', which blocks the upload
+}
+
+// Where a mapped value goes. For path, query and header targets jsonPath holds
+// the placeholder name, query key or header name.
+export type MappingTarget = 'body' | 'path' | 'query' | 'header';
+
 export interface Mapping {
   id: string; // Unique ID for UI handling
   jsonPath: string; // e.g., "productId" or "items[].id" (User editable)
+  target?: MappingTarget; // Defaults to 'body'
   dataType: DataType; // User selectable type
   csvHeader?: string; // e.g., "A" or "SKU_CODE"
   defaultValue?: string; // Value if no CSV header is mapped
   transformation?: TransformationConfig;
   internalFields?: InternalFieldMapping[]; // Only used when dataType is array_object
+  validation?: ValidationRules; // Checked in the pre-flight step before pushing
+  castPolicy?: CastFailurePolicy; // Defaults to 'fail_row'
+  emptyPolicy?: EmptyValuePolicy; // Defaults to 'type_default'
+  emptyLiteral?: string;          // Sent (cast to the field type) when emptyPolicy is 'literal'
+}
+
+// A mapped value that could not be converted to its target type
+export interface FieldDiagnostic {
+  mappingId: string;
+  jsonPath: string;
+  csvHeader?: string;
+  rawValue: string;
+  targetType: DataType;
+  reason: string;
+  policy: CastFailurePolicy;
+}
+
+// A body key renamed in the config editor, so mappings can follow it
+export interface PathRename {
+  from: string;
+  to: string;
+}
+
+// A request as it went out. Values of credential headers are masked.
+export interface SentRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string; // Unset for methods without a body; multipart parts one per line
+  curl: string;
+}
+
+// One request sent for a row; a row has several when it was retried
+export interface RequestAttempt {
+  step?: number;      // Index of the request step, when the job has several
+  statusCode: number; // 0 when no response arrived
+  latencyMs: number;
+  response: string;   // Response body, or the error; prefixed with the reason when a success rule failed
+  timestamp: Date;
+  request?: SentRequest;
+  responseHeaders?: Record<string, string>; // Only headers the API exposes to CORS are readable
+  responseBytes?: number;
+  responseBody?: string; // The body as received, when response holds a summary instead
+}
+
+export interface StepProgress {
+  status: 'pending' | 'success' | 'error';
+  statusCode?: number;
+  response?: string;
 }
 
 export interface JobLog {
@@ -41,10 +192,15 @@ export interface JobLog {
   response?: string;
   data: any;
   timestamp: Date;
+  uploadBytes?: number; // Size of the request body that was sent
+  attempts?: RequestAttempt[]; // Oldest first; the last one is reflected in statusCode and response
+  extracted?: Record<string, string>; // Values the response extractors wrote into data
+  steps?: StepProgress[]; // One per request step, when the job has several; a row resumes at the first that didn't succeed
 }
 
 export enum AppStep {
   CONFIGURE = 1,
   DATA_ENTRY = 2,
-  EXECUTE = 3
+  PREFLIGHT = 3,
+  EXECUTE = 4
 }
\ No newline at end of file
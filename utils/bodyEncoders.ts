@@ -0,0 +1,162 @@
+import { ApiConfig, BodyEncoding, QueryOptions, XmlOptions } from "../types";
+import { DEFAULT_QUERY_OPTIONS, flattenFields, isPlainObject, serializeQuery, toParamText } from "./requestBuilder";
+import { fileNameReplacer, formatBytes } from "./fileAttachments";
+import { buildGraphQLBody } from "./graphql";
+
+export const DEFAULT_XML_OPTIONS: XmlOptions = { rootElement: 'root', attributePrefix: '@' };
+
+export const BODY_ENCODING_LABELS: Record<BodyEncoding, string> = {
+  json: 'JSON',
+  form: 'Form (urlencoded)',
+  multipart: 'Multipart form-data',
+  xml: 'XML',
+};
+
+// Key that holds the text of an XML element that also has attributes or children
+export const XML_TEXT_KEY = '#text';
+
+const escapeXml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// Template keys may contain characters that are not allowed in element names
+const toXmlName = (key: string): string => {
+  const name = key.replace(/[^\w.:-]/g, '_');
+  return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+};
+
+/**
+ * Serializes a payload as an XML document. Keys starting with the attribute
+ * prefix become attributes of their element, "#text" becomes its text, arrays
+ * repeat the element once per item and null becomes an empty element.
+ */
+export const encodeXml = (payload: Record<string, any>, options: XmlOptions = DEFAULT_XML_OPTIONS): string => {
+  const prefix = options.attributePrefix;
+  const isAttribute = (key: string) => !!prefix && key.startsWith(prefix) && key.length > prefix.length;
+  const hasValue = (value: any) => value !== null && value !== undefined;
+
+  const render = (name: string, value: any, indent: string): string[] => {
+    if (Array.isArray(value)) return value.flatMap(item => render(name, item, indent));
+    const tag = toXmlName(name);
+    if (!isPlainObject(value)) {
+      return [hasValue(value) ? `${indent}<${tag}>${escapeXml(toParamText(value))}</${tag}>` : `${indent}<${tag}/>`];
+    }
+
+    const attributes = Object.keys(value)
+      .filter(key => isAttribute(key) && hasValue(value[key]))
+      .map(key => ` ${toXmlName(key.slice(prefix.length))}="${escapeXml(toParamText(value[key]))}"`)
+      .join('');
+    const text = hasValue(value[XML_TEXT_KEY]) ? escapeXml(toParamText(value[XML_TEXT_KEY])) : '';
+    const children = Object.keys(value).filter(key => !isAttribute(key) && key !== XML_TEXT_KEY);
+    if (children.length === 0) {
+      return [text ? `${indent}<${tag}${attributes}>${text}</${tag}>` : `${indent}<${tag}${attributes}/>`];
+    }
+    return [
+      `${indent}<${tag}${attributes}>${text}`,
+      ...children.flatMap(key => render(key, value[key], `${indent}  `)),
+      `${indent}</${tag}>`,
+    ];
+  };
+
+  const root = options.rootElement.trim() || DEFAULT_XML_OPTIONS.rootElement;
+  return ['<?xml version="1.0" encoding="UTF-8"?>', ...render(root, payload || {}, '')].join('\n');
+};
+
+const elementToValue = (element: Element, prefix: string): any => {
+  const result: Record<string, any> = {};
+  Array.from(element.attributes).forEach(attr => {
+    result[`${prefix}${attr.name}`] = attr.value;
+  });
+  Array.from(element.children).forEach(child => {
+    const key = child.nodeName;
+    const value = elementToValue(child, prefix);
+    if (key in result) {
+      result[key] = Array.isArray(result[key]) ? [...result[key], value] : [result[key], value];
+    } else {
+      result[key] = value;
+    }
+  });
+  const text = Array.from(element.childNodes)
+    .filter(node => node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE)
+    .map(node => node.textContent)
+    .join('')
+    .trim();
+
+  if (Object.keys(result).length === 0) return text;
+  if (text) result[XML_TEXT_KEY] = text;
+  return result;
+};
+
+/**
+ * Parses an XML document into a body template, the reverse of encodeXml.
+ * The root element is returned separately because the template only holds
+ * its content. Relies on the browser's DOMParser.
+ */
+export const parseXmlBody = (text: string, attributePrefix = DEFAULT_XML_OPTIONS.attributePrefix): { rootElement: string; template: Record<string, any> } => {
+  if (typeof DOMParser === 'undefined') throw new Error('XML bodies can only be parsed in the browser.');
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const parseError = doc.getElementsByTagName('parsererror')[0];
+  if (parseError) {
+    throw new Error(`Request body looks like XML but is invalid: ${(parseError.textContent || '').trim().split('\n')[0]}`);
+  }
+  const root = doc.documentElement;
+  const value = elementToValue(root, attributePrefix);
+  return {
+    rootElement: root.nodeName,
+    template: isPlainObject(value) ? value : (value ? { [XML_TEXT_KEY]: value } : {}),
+  };
+};
+
+// Nested fields are flattened into form fields the same way as query parameters
+export const encodeFormBody = (payload: Record<string, any>, options: QueryOptions = DEFAULT_QUERY_OPTIONS): string =>
+  new URLSearchParams(serializeQuery(payload, options)).toString();
+
+// Attached files become file parts; other encodings send just their name
+export const encodeMultipartBody = (payload: Record<string, any>, options: QueryOptions = DEFAULT_QUERY_OPTIONS): FormData => {
+  const form = new FormData();
+  flattenFields(payload, options).forEach(([key, value]) => {
+    if (value instanceof Blob) form.append(key, value);
+    else form.append(key, toParamText(value));
+  });
+  return form;
+};
+
+// The request body for a built payload, in the config's encoding. GraphQL payloads are the variables of a JSON request.
+export const encodeBody = (config: ApiConfig, payload: Record<string, any>): string | FormData => {
+  if (config.graphql) return JSON.stringify(buildGraphQLBody(config.graphql, payload), fileNameReplacer);
+  const options = config.query || DEFAULT_QUERY_OPTIONS;
+  switch (config.bodyEncoding || 'json') {
+    case 'form': return encodeFormBody(payload, options);
+    case 'multipart': return encodeMultipartBody(payload, options);
+    case 'xml': return encodeXml(payload, config.xml);
+    default: return JSON.stringify(payload, fileNameReplacer);
+  }
+};
+
+// Readable text of the encoded body for previews and logs; multipart parts are listed one per line
+export const previewBody = (config: ApiConfig, payload: Record<string, any>): string => {
+  if (config.graphql) return JSON.stringify(buildGraphQLBody(config.graphql, payload), fileNameReplacer, 2);
+  const options = config.query || DEFAULT_QUERY_OPTIONS;
+  switch (config.bodyEncoding || 'json') {
+    case 'form': return encodeFormBody(payload, options);
+    case 'multipart':
+      return flattenFields(payload, options).map(([key, value]) => value instanceof Blob
+        ? `${key}: <file ${(value as File).name}, ${formatBytes(value.size)}>`
+        : `${key}: ${toParamText(value)}`).join('\n');
+    case 'xml': return encodeXml(payload, config.xml);
+    default: return JSON.stringify(payload, fileNameReplacer, 2);
+  }
+};
+
+// Bytes on the wire for an encoded body; multipart framing is not counted
+export const measureBody = (body: string | FormData): number => {
+  if (typeof body === 'string') return new TextEncoder().encode(body).length;
+  let bytes = 0;
+  body.forEach((value, key) => {
+    bytes += new TextEncoder().encode(key).length + (typeof value === 'string' ? new TextEncoder().encode(value).length : value.size);
+  });
+  return bytes;
+};
@@ -0,0 +1,339 @@
+import { CsvRow } from "../types";
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1258' | 'windows-1252';
+
+export const DELIMITER_CANDIDATES: CsvDelimiter[] = [',', ';', '\t', '|'];
+
+export interface CsvIssue {
+  line: number; // 1-based physical line where the problem starts
+  message: string;
+}
+
+export interface CsvParseOptions {
+  delimiter?: CsvDelimiter; // Detected when omitted
+  encoding?: CsvEncoding;   // Detected when omitted (files only)
+  hasHeader?: boolean;      // Defaults to true
+}
+
+export interface CsvParseResult {
+  headers: string[];
+  data: CsvRow[];
+  delimiter: CsvDelimiter;
+  encoding: CsvEncoding;
+  issues: CsvIssue[];
+}
+
+export interface CsvStreamParser {
+  push: (chunk: string) => void;
+  end: () => void;
+}
+
+const SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Incremental RFC 4180 parser. Text can be pushed in arbitrary chunks;
+ * onRecord is called with every complete record and the line it started on.
+ * Deviations from the standard are reported through onIssue and parsed leniently.
+ */
+export const createCsvStreamParser = (
+  delimiter: string,
+  onRecord: (fields: string[], line: number) => void,
+  onIssue: (issue: CsvIssue) => void = () => {}
+): CsvStreamParser => {
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quoteClosed = false;  // Just saw the closing quote of a quoted field
+  let fieldStarted = false; // Current field has content (or is quoted)
+  let pendingCR = false;    // Last chunk ended in \r; a following \n belongs to it
+  let quotedCR = false;     // Previous character inside quotes was \r
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    fieldStarted = false;
+    quoteClosed = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    onRecord(fields, recordLine);
+    fields = [];
+  };
+
+  const push = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      if (pendingCR) {
+        pendingCR = false;
+        if (ch === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (ch === '"') {
+          inQuotes = false;
+          quoteClosed = true;
+        } else {
+          // \r\n counts as one line break, even when split across chunks
+          if (ch === '\r' || (ch === '\n' && !quotedCR)) line++;
+          quotedCR = ch === '\r';
+          field += ch;
+        }
+        continue;
+      }
+
+      if (quoteClosed && ch === '"') {
+        // "" inside a quoted field is an escaped quote
+        field += '"';
+        inQuotes = true;
+        quoteClosed = false;
+        continue;
+      }
+
+      if (ch === delimiter) {
+        endField();
+        continue;
+      }
+
+      if (ch === '\r' || ch === '\n') {
+        if (ch === '\r') {
+          if (i + 1 < chunk.length) {
+            if (chunk[i + 1] === '\n') i++;
+          } else {
+            pendingCR = true;
+          }
+        }
+        endRecord();
+        line++;
+        recordLine = line;
+        continue;
+      }
+
+      if (ch === '"' && !fieldStarted) {
+        inQuotes = true;
+        quotedCR = false;
+        fieldStarted = true;
+        quoteLine = line;
+        continue;
+      }
+
+      if (quoteClosed) {
+        onIssue({ line, message: `Unexpected character "${ch}" after a closing quote.` });
+        quoteClosed = false;
+      } else if (ch === '"') {
+        onIssue({ line, message: 'Unescaped quote inside an unquoted field.' });
+      }
+      field += ch;
+      fieldStarted = true;
+    }
+  };
+
+  const end = () => {
+    if (inQuotes) {
+      onIssue({ line: quoteLine, message: 'Quoted field is never closed.' });
+    }
+    // A trailing newline doesn't start a new record
+    if (fieldStarted || fields.length > 0 || field !== '') {
+      endRecord();
+    }
+  };
+
+  return { push, end };
+};
+
+const parseRecords = (text: string, delimiter: string, limit = Infinity): string[][] => {
+  const records: string[][] = [];
+  const parser = createCsvStreamParser(delimiter, (fields) => {
+    if (records.length < limit) records.push(fields);
+  });
+  parser.push(text);
+  parser.end();
+  return records;
+};
+
+/**
+ * Picks the delimiter that splits the sample into the most consistent
+ * number of columns (more than one).
+ */
+export const detectDelimiter = (sample: string): CsvDelimiter => {
+  // The last line of a sample may be cut off
+  const lastBreak = Math.max(sample.lastIndexOf('\n'), sample.lastIndexOf('\r'));
+  const text = lastBreak > 0 && sample.length >= SAMPLE_BYTES / 2 ? sample.slice(0, lastBreak) : sample;
+
+  let best: CsvDelimiter = ',';
+  let bestScore = -1;
+
+  DELIMITER_CANDIDATES.forEach(candidate => {
+    const records = parseRecords(text, candidate, 50).filter(r => r.some(f => f.trim() !== ''));
+    if (records.length === 0) return;
+
+    const counts = new Map<number, number>();
+    records.forEach(r => counts.set(r.length, (counts.get(r.length) || 0) + 1));
+    let modeColumns = 1;
+    let modeFrequency = 0;
+    counts.forEach((freq, columns) => {
+      if (freq > modeFrequency || (freq === modeFrequency && columns > modeColumns)) {
+        modeColumns = columns;
+        modeFrequency = freq;
+      }
+    });
+    if (modeColumns < 2) return;
+
+    // Consistency first, then the number of columns as a tie-breaker
+    const score = (modeFrequency / records.length) * 1000 + Math.min(modeColumns, 999);
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+// Windows-1258 puts Vietnamese combining tone marks at these positions
+const CP1258_TONE_MARKS = new Set([0xCC, 0xD2, 0xDE, 0xEC, 0xF2]);
+// Đ đ Ơ ơ Ư ư Ă ă in Windows-1258 (Ð ð Õ õ Ý ý Ã ã in Windows-1252)
+const CP1258_LETTERS = new Set([0xD0, 0xF0, 0xD5, 0xF5, 0xDD, 0xFD, 0xC3, 0xE3]);
+
+const isAsciiLetter = (b: number) => (b >= 0x41 && b <= 0x5A) || (b >= 0x61 && b <= 0x7A);
+
+export const detectEncoding = (bytes: Uint8Array, truncated = bytes.length >= SAMPLE_BYTES): CsvEncoding => {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+
+  // UTF-16 without BOM: ASCII text has a zero in every other byte
+  const probe = bytes.subarray(0, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < probe.length; i++) {
+    if (probe[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const pairs = probe.length / 2;
+  if (pairs > 0 && oddZeros / pairs > 0.3 && evenZeros < oddZeros / 4) return 'utf-16le';
+  if (pairs > 0 && evenZeros / pairs > 0.3 && oddZeros < evenZeros / 4) return 'utf-16be';
+
+  try {
+    // stream: true tolerates a multi-byte sequence cut off at the end of a truncated sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: truncated });
+    return 'utf-8';
+  } catch {
+    // Not UTF-8; decide between the two single-byte code pages
+  }
+
+  let toneMarks = 0;
+  let vietnameseLetters = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    const b = bytes[i];
+    if (CP1258_TONE_MARKS.has(b) && i > 0 && (isAsciiLetter(bytes[i - 1]) || bytes[i - 1] >= 0xC0)) toneMarks++;
+    if (CP1258_LETTERS.has(b)) vietnameseLetters++;
+  }
+  return toneMarks > 0 || vietnameseLetters >= 3 ? 'windows-1258' : 'windows-1252';
+};
+
+// Turns raw header cells into unique, non-empty column names
+export const normalizeHeaders = (raw: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return raw.map((h, idx) => {
+    let name = h.trim() || `Column ${idx + 1}`;
+    const count = seen.get(name) || 0;
+    seen.set(name, count + 1);
+    if (count > 0) name = `${name}_${count}`;
+    return name;
+  });
+};
+
+// Collects records into CsvRows, validating the number of fields per line
+const createRowCollector = (hasHeader: boolean, issues: CsvIssue[]) => {
+  let headers: string[] | null = null;
+  const data: CsvRow[] = [];
+
+  const onRecord = (fields: string[], line: number) => {
+    // Blank lines are skipped, as before
+    if (!fields.some(f => f.trim() !== '')) return;
+
+    if (!headers) {
+      if (hasHeader) {
+        headers = normalizeHeaders(fields);
+        return;
+      }
+      headers = fields.map((_, idx) => `Column ${idx + 1}`);
+    }
+
+    if (fields.length > headers.length) {
+      if (!hasHeader) {
+        // Without a header row the widest record defines the columns
+        for (let i = headers.length; i < fields.length; i++) headers.push(`Column ${i + 1}`);
+      } else {
+        issues.push({ line, message: `Expected ${headers.length} fields but found ${fields.length}; extra values were dropped.` });
+      }
+    } else if (fields.length < headers.length && hasHeader) {
+      issues.push({ line, message: `Expected ${headers.length} fields but found ${fields.length}.` });
+    }
+
+    const row: CsvRow = {};
+    headers.forEach((header, index) => {
+      row[header] = fields[index] ?? '';
+    });
+    data.push(row);
+  };
+
+  return { onRecord, result: () => ({ headers: headers || [], data }) };
+};
+
+export const parseCsvText = (text: string, options: CsvParseOptions = {}): CsvParseResult => {
+  const clean = text.charCodeAt(0) === 0xFEFF ? text.slice(1) : text;
+  const delimiter = options.delimiter || detectDelimiter(clean.slice(0, SAMPLE_BYTES));
+  const issues: CsvIssue[] = [];
+  const collector = createRowCollector(options.hasHeader !== false, issues);
+
+  const parser = createCsvStreamParser(delimiter, collector.onRecord, issue => issues.push(issue));
+  parser.push(clean);
+  parser.end();
+
+  return { ...collector.result(), delimiter, encoding: 'utf-8', issues };
+};
+
+/**
+ * Streams a CSV/TSV file through the parser without loading the raw
+ * bytes and decoded text into memory at the same time.
+ */
+export const parseCsvFile = async (file: File, options: CsvParseOptions = {}): Promise<CsvParseResult> => {
+  const sampleBytes = new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+  const encoding = options.encoding || detectEncoding(sampleBytes);
+
+  const sampleText = new TextDecoder(encoding).decode(sampleBytes, { stream: true });
+  const delimiter = options.delimiter || detectDelimiter(sampleText);
+
+  const issues: CsvIssue[] = [];
+  const collector = createRowCollector(options.hasHeader !== false, issues);
+  const parser = createCsvStreamParser(delimiter, collector.onRecord, issue => issues.push(issue));
+
+  // TextDecoder strips the BOM for us
+  const decoder = new TextDecoder(encoding);
+  const reader = file.stream().getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+  parser.push(decoder.decode());
+  parser.end();
+
+  return { ...collector.result(), delimiter, encoding, issues };
+};
+
+// Spreadsheet clipboard data is tab-separated, quoting cells that contain tabs, newlines or quotes
+export const parseClipboardGrid = (text: string): string[][] => {
+  return parseRecords(text.replace(/\r?\n$/, ''), '\t');
+};
+
+export const isDelimitedTextFile = (fileName: string): boolean => /\.(csv|tsv|txt)$/i.test(fileName);
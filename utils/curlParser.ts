@@ -0,0 +1,516 @@
+import { ApiConfig, BodyEncoding, GraphQLConfig, XmlOptions } from "../types";
+import { cleanInternalKeys } from "./dataUtils";
+import { DEFAULT_XML_OPTIONS, encodeBody, encodeFormBody, encodeXml, parseXmlBody } from "./bodyEncoders";
+import { BuiltRequest, flattenFields, serializeQuery, toParamText } from "./requestBuilder";
+import { buildGraphQLBody, extractGraphQLBody } from "./graphql";
+
+// Options that consume the next token as their value
+const OPTIONS_WITH_VALUE = new Set([
+  '-X', '--request',
+  '-H', '--header',
+  '-d', '--data', '--data-raw', '--data-binary', '--data-ascii', '--data-urlencode', '--json',
+  '-F', '--form', '--form-string',
+  '-u', '--user',
+  '--url',
+  '-A', '--user-agent',
+  '-e', '--referer',
+  '-b', '--cookie',
+  '--oauth2-bearer',
+  // Consumed but irrelevant for the request definition
+  '-o', '--output', '-m', '--max-time', '--connect-timeout', '-x', '--proxy', '-U', '--proxy-user',
+  '--cacert', '--capath', '-E', '--cert', '--key', '--cert-type', '--key-type', '-w', '--write-out',
+  '--retry', '--retry-delay', '--retry-max-time', '-c', '--cookie-jar', '--resolve', '--limit-rate',
+  '-r', '--range', '--max-redirs', '--interface', '--dns-servers', '-y', '--speed-time',
+  '-Y', '--speed-limit', '-z', '--time-cond', '--connect-to', '--aws-sigv4', '--trace', '--trace-ascii',
+  '--stderr', '-D', '--dump-header', '--expect100-timeout', '--proto', '--proto-redir',
+]);
+
+// Options we recognise but cannot reproduce in a browser request
+const UNSUPPORTED_OPTIONS = new Set(['-T', '--upload-file', '-K', '--config', '--next', '-:']);
+
+// Short flags that take a value, used when short options are combined (e.g. -sSX POST)
+const SHORT_WITH_VALUE = new Set(
+  Array.from(OPTIONS_WITH_VALUE).filter(o => /^-[a-zA-Z]$/.test(o)).map(o => o[1])
+);
+
+const ANSI_ESCAPES: Record<string, string> = {
+  n: '\n', t: '\t', r: '\r', a: '\x07', b: '\b', e: '\x1b', f: '\f', v: '\v',
+  '\\': '\\', "'": "'", '"': '"', '?': '?',
+};
+
+/**
+ * Splits a shell command line into arguments the way a POSIX shell would:
+ * handles single, double and $'...' quoting, backslash escapes and
+ * line continuations. Stops at the first unquoted pipe, `;`, `&` or redirect.
+ */
+export const tokenizeShell = (input: string): string[] => {
+  const tokens: string[] = [];
+  // Line continuations: backslash (bash) or caret (cmd.exe) at the end of a line
+  const text = input.replace(/\\\r?\n/g, ' ').replace(/\^\r?\n/g, ' ');
+
+  let current = '';
+  let hasToken = false;
+  let i = 0;
+
+  const pushToken = () => {
+    if (hasToken) tokens.push(current);
+    current = '';
+    hasToken = false;
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (/\s/.test(ch)) {
+      pushToken();
+      i++;
+      continue;
+    }
+
+    if (ch === '|' || ch === ';' || ch === '&' || ch === '>' || ch === '<') {
+      break;
+    }
+
+    if (ch === '#' && !hasToken) {
+      // Comment until end of line
+      while (i < text.length && text[i] !== '\n') i++;
+      continue;
+    }
+
+    if (ch === "'") {
+      const end = text.indexOf("'", i + 1);
+      if (end === -1) throw new Error('Unterminated single quote in cURL command.');
+      current += text.slice(i + 1, end);
+      hasToken = true;
+      i = end + 1;
+      continue;
+    }
+
+    if (ch === '$' && text[i + 1] === "'") {
+      i += 2;
+      let closed = false;
+      while (i < text.length) {
+        const c = text[i];
+        if (c === "'") { closed = true; i++; break; }
+        if (c === '\\' && i + 1 < text.length) {
+          const next = text[i + 1];
+          if (next === 'x') {
+            const hex = text.slice(i + 2).match(/^[0-9a-fA-F]{1,2}/)?.[0] || '';
+            current += hex ? String.fromCharCode(parseInt(hex, 16)) : '\\x';
+            i += 2 + hex.length;
+          } else if (next === 'u' || next === 'U') {
+            const hex = text.slice(i + 2).match(next === 'u' ? /^[0-9a-fA-F]{1,4}/ : /^[0-9a-fA-F]{1,8}/)?.[0] || '';
+            current += hex ? String.fromCodePoint(parseInt(hex, 16)) : `\\${next}`;
+            i += 2 + hex.length;
+          } else if (/[0-7]/.test(next)) {
+            const oct = text.slice(i + 1).match(/^[0-7]{1,3}/)![0];
+            current += String.fromCharCode(parseInt(oct, 8));
+            i += 1 + oct.length;
+          } else {
+            current += ANSI_ESCAPES[next] ?? `\\${next}`;
+            i += 2;
+          }
+          continue;
+        }
+        current += c;
+        i++;
+      }
+      if (!closed) throw new Error("Unterminated $'...' quote in cURL command.");
+      hasToken = true;
+      continue;
+    }
+
+    if (ch === '"') {
+      i++;
+      let closed = false;
+      while (i < text.length) {
+        const c = text[i];
+        if (c === '"') { closed = true; i++; break; }
+        // Inside double quotes, backslash only escapes these characters
+        if (c === '\\' && i + 1 < text.length && '"\\$`\n'.includes(text[i + 1])) {
+          current += text[i + 1];
+          i += 2;
+          continue;
+        }
+        current += c;
+        i++;
+      }
+      if (!closed) throw new Error('Unterminated double quote in cURL command.');
+      hasToken = true;
+      continue;
+    }
+
+    if (ch === '\\' && i + 1 < text.length) {
+      current += text[i + 1];
+      hasToken = true;
+      i += 2;
+      continue;
+    }
+
+    current += ch;
+    hasToken = true;
+    i++;
+  }
+  pushToken();
+  return tokens;
+};
+
+// Base64 that also works for non-latin1 credentials
+export const toBase64 = (value: string): string => {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  bytes.forEach(b => binary += String.fromCharCode(b));
+  return btoa(binary);
+};
+
+const encodeDataUrlencode = (value: string): string => {
+  const atIndex = value.indexOf('@');
+  const eqIndex = value.indexOf('=');
+  if (atIndex !== -1 && (eqIndex === -1 || atIndex < eqIndex)) {
+    throw new Error('--data-urlencode with @file cannot be read in the browser.');
+  }
+  if (eqIndex === -1) return encodeURIComponent(value);
+  if (eqIndex === 0) return encodeURIComponent(value.slice(1));
+  return `${value.slice(0, eqIndex)}=${encodeURIComponent(value.slice(eqIndex + 1))}`;
+};
+
+// Repeated keys collect their values in an array
+const pairsToObject = (pairs: Iterable<[string, string]>): Record<string, any> => {
+  const result: Record<string, any> = {};
+  for (const [key, value] of pairs) {
+    if (key in result) {
+      result[key] = Array.isArray(result[key]) ? [...result[key], value] : [result[key], value];
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+};
+
+// Converts "a=1&b=2&b=3" into { a: "1", b: ["2", "3"] }
+export const parseFormBody = (body: string): Record<string, any> =>
+  pairsToObject(new URLSearchParams(body).entries());
+
+const looksLikeFormBody = (body: string): boolean => /^[^=&\s]+=/.test(body) && !/[\r\n]/.test(body);
+
+/**
+ * Parses a -F/--form value. File parts ("avatar=@photo.jpg;type=image/jpeg")
+ * keep the file name as their template value; --form-string values are literal.
+ */
+const parseFormPart = (raw: string, literal: boolean): [string, string] => {
+  const eqIndex = raw.indexOf('=');
+  if (eqIndex <= 0) throw new Error(`Invalid form field "${raw}"; expected name=value.`);
+  const name = raw.slice(0, eqIndex);
+  const value = raw.slice(eqIndex + 1);
+  if (literal) return [name, value];
+  if (value.startsWith('<')) throw new Error(`-F ${raw} reads a field from a file, which is not supported.`);
+  if (value.startsWith('@')) return [name, value.slice(1).split(';')[0].split(/[\\/]/).pop()!];
+  return [name, value];
+};
+
+const parseBodyTemplate = (body: string): Record<string, any> => {
+  const trimmed = body.trim();
+  if (!trimmed) return {};
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (e: any) {
+      throw new Error(`Request body looks like JSON but is invalid: ${e.message}`);
+    }
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('Only JSON object bodies are supported.');
+    }
+    return parsed;
+  }
+
+  if (looksLikeFormBody(trimmed)) {
+    return parseFormBody(trimmed);
+  }
+
+  throw new Error('Request body is neither JSON nor form data.');
+};
+
+const addHeader = (headers: Record<string, string>, raw: string) => {
+  const colonIndex = raw.indexOf(':');
+  const name = (colonIndex === -1 ? raw.replace(/;\s*$/, '') : raw.slice(0, colonIndex)).trim();
+  const value = colonIndex === -1 ? '' : raw.slice(colonIndex + 1).trim();
+  if (!name) return;
+  const existing = Object.keys(headers).find(k => k.toLowerCase() === name.toLowerCase());
+  if (colonIndex === -1) {
+    // "X-Empty;" sends an empty header in curl
+    if (!raw.trim().endsWith(';')) return;
+    if (existing) delete headers[existing];
+    headers[name] = '';
+    return;
+  }
+  // "Name:" with no value removes the header in curl
+  if (!value) {
+    if (existing) delete headers[existing];
+    return;
+  }
+
+  if (existing && headers[existing] !== '') {
+    headers[existing] = `${headers[existing]}, ${value}`;
+  } else {
+    if (existing) delete headers[existing];
+    headers[name] = value;
+  }
+};
+
+const hasHeader = (headers: Record<string, string>, name: string) =>
+  Object.keys(headers).some(k => k.toLowerCase() === name.toLowerCase());
+
+const getHeader = (headers: Record<string, string>, name: string): string | undefined => {
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : headers[key];
+};
+
+// The Content-Type header wins; otherwise -F means multipart and curl's -d default is urlencoded
+export const detectBodyEncoding = (contentType: string, body: string, hasFormParts: boolean): BodyEncoding => {
+  const type = contentType.toLowerCase();
+  if (hasFormParts || type.includes('multipart/form-data')) return 'multipart';
+  if (type.includes('xml')) return 'xml';
+  if (type.includes('x-www-form-urlencoded')) return 'form';
+  if (type.includes('json')) return 'json';
+  const trimmed = body.trim();
+  if (trimmed.startsWith('<')) return 'xml';
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[') && looksLikeFormBody(trimmed)) return 'form';
+  return 'json';
+};
+
+/**
+ * Deterministic, offline cURL parser. Throws when the command uses features
+ * it cannot translate into an ApiConfig.
+ */
+export const parseCurl = (curlString: string): ApiConfig => {
+  const tokens = tokenizeShell(curlString.trim());
+  if (tokens.length === 0) throw new Error('cURL command is empty.');
+
+  const command = tokens[0].split(/[\\/]/).pop()!.toLowerCase();
+  if (command !== 'curl' && command !== 'curl.exe') {
+    throw new Error('Input does not start with "curl".');
+  }
+
+  let method: string | undefined;
+  let url: string | undefined;
+  let useGet = false;
+  let useHead = false;
+  let isJson = false;
+  const headers: Record<string, string> = {};
+  const dataParts: string[] = [];
+  const formParts: [string, string][] = [];
+
+  const applyOption = (option: string, value: string) => {
+    switch (option) {
+      case '-X': case '--request':
+        method = value.toUpperCase();
+        break;
+      case '-H': case '--header':
+        addHeader(headers, value);
+        break;
+      case '-d': case '--data': case '--data-ascii': case '--data-binary':
+        if (value.startsWith('@')) throw new Error(`${option} ${value} reads from a file, which is not supported.`);
+        dataParts.push(value);
+        break;
+      case '--data-raw':
+        dataParts.push(value);
+        break;
+      case '--data-urlencode':
+        dataParts.push(encodeDataUrlencode(value));
+        break;
+      case '--json':
+        if (value.startsWith('@')) throw new Error('--json @file reads from a file, which is not supported.');
+        dataParts.push(value);
+        isJson = true;
+        break;
+      case '-F': case '--form':
+        formParts.push(parseFormPart(value, false));
+        break;
+      case '--form-string':
+        formParts.push(parseFormPart(value, true));
+        break;
+      case '-u': case '--user':
+        if (!hasHeader(headers, 'Authorization')) {
+          headers['Authorization'] = `Basic ${toBase64(value.includes(':') ? value : `${value}:`)}`;
+        }
+        break;
+      case '--oauth2-bearer':
+        headers['Authorization'] = `Bearer ${value}`;
+        break;
+      case '--url':
+        if (!url) url = value;
+        break;
+      case '-A': case '--user-agent':
+        headers['User-Agent'] = value;
+        break;
+      case '-e': case '--referer':
+        headers['Referer'] = value;
+        break;
+      case '-b': case '--cookie':
+        // Without "=" the value is a cookie file name
+        if (value.includes('=')) headers['Cookie'] = value;
+        break;
+      default:
+        break;
+    }
+  };
+
+  for (let i = 1; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token === '--') {
+      if (!url && tokens[i + 1]) url = tokens[i + 1];
+      break;
+    }
+
+    if (token.startsWith('--')) {
+      if (UNSUPPORTED_OPTIONS.has(token)) throw new Error(`The ${token} option is not supported by the local parser.`);
+      if (token === '--get') { useGet = true; continue; }
+      if (token === '--head') { useHead = true; continue; }
+      if (OPTIONS_WITH_VALUE.has(token)) {
+        if (i + 1 >= tokens.length) throw new Error(`Missing value for ${token}.`);
+        applyOption(token, tokens[++i]);
+      }
+      // Unknown long options (e.g. --compressed, --location) are flags without values
+      continue;
+    }
+
+    if (token.startsWith('-') && token.length > 1) {
+      // Short options, possibly combined: -sSL, -XPOST, -sX POST
+      for (let c = 1; c < token.length; c++) {
+        const flag = `-${token[c]}`;
+        if (UNSUPPORTED_OPTIONS.has(flag)) throw new Error(`The ${flag} option is not supported by the local parser.`);
+        if (flag === '-G') { useGet = true; continue; }
+        if (flag === '-I') { useHead = true; continue; }
+        if (SHORT_WITH_VALUE.has(token[c])) {
+          let value = token.slice(c + 1);
+          if (!value) {
+            if (i + 1 >= tokens.length) throw new Error(`Missing value for ${flag}.`);
+            value = tokens[++i];
+          }
+          applyOption(flag, value);
+          break;
+        }
+      }
+      continue;
+    }
+
+    if (!url) url = token;
+  }
+
+  if (!url) throw new Error('No URL found in cURL command.');
+  if (formParts.length > 0 && dataParts.length > 0) {
+    throw new Error('-F form fields cannot be combined with -d/--data in one request.');
+  }
+  if (!/^[a-zA-Z][a-zA-Z0-9+.-]*:\/\//.test(url)) url = `http://${url}`;
+
+  let body = dataParts.join('&');
+  if (useGet && body) {
+    url += (url.includes('?') ? '&' : '?') + body;
+    body = '';
+  }
+
+  if (isJson) {
+    if (!hasHeader(headers, 'Content-Type')) headers['Content-Type'] = 'application/json';
+    if (!hasHeader(headers, 'Accept')) headers['Accept'] = 'application/json';
+  }
+
+  const resolvedMethod = method
+    || (useHead ? 'HEAD' : useGet ? 'GET' : dataParts.length > 0 || formParts.length > 0 ? 'POST' : 'GET');
+
+  const bodyEncoding = isJson ? 'json' : detectBodyEncoding(getHeader(headers, 'Content-Type') || '', body, formParts.length > 0);
+  let bodyTemplate: Record<string, any>;
+  let xml: XmlOptions | undefined;
+  if (formParts.length > 0) {
+    bodyTemplate = pairsToObject(formParts);
+  } else if (bodyEncoding === 'xml' && body.trim()) {
+    const parsed = parseXmlBody(body.trim());
+    bodyTemplate = parsed.template;
+    xml = { ...DEFAULT_XML_OPTIONS, rootElement: parsed.rootElement };
+  } else {
+    bodyTemplate = parseBodyTemplate(body);
+  }
+
+  // A hand-wrapped { query, variables } body switches to GraphQL mode
+  let graphql: GraphQLConfig | undefined;
+  const graphqlBody = bodyEncoding === 'json' ? extractGraphQLBody(bodyTemplate) : null;
+  if (graphqlBody) {
+    graphql = graphqlBody.graphql;
+    bodyTemplate = graphqlBody.variables;
+  }
+
+  return {
+    method: resolvedMethod,
+    url,
+    headers: cleanInternalKeys(headers),
+    bodyTemplate: cleanInternalKeys(bodyTemplate),
+    ...(bodyEncoding !== 'json' && { bodyEncoding }),
+    ...(xml && { xml }),
+    ...(graphql && { graphql }),
+  };
+};
+
+// Quotes a value for a POSIX shell using single quotes
+export const shellQuote = (value: string): string => {
+  if (/^[a-zA-Z0-9_\-.,/:=@%+]+$/.test(value)) return value;
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+};
+
+/**
+ * Builds a cURL command from an ApiConfig. The output parses back into the
+ * same config with parseCurl.
+ */
+export const buildCurlCommand = (config: ApiConfig): string => {
+  const lines = [`curl -X ${config.method.toUpperCase()} ${shellQuote(config.url)}`];
+  Object.entries(config.headers || {}).forEach(([key, value]) => {
+    lines.push(`  -H ${shellQuote(`${key}: ${value}`)}`);
+  });
+  if (config.graphql) {
+    lines.push(`  --data-raw ${shellQuote(JSON.stringify(buildGraphQLBody(config.graphql, config.bodyTemplate || {})))}`);
+  } else if (config.bodyTemplate && Object.keys(config.bodyTemplate).length > 0) {
+    switch (config.bodyEncoding || 'json') {
+      case 'form':
+        lines.push(`  --data-raw ${shellQuote(encodeFormBody(config.bodyTemplate, config.query))}`);
+        break;
+      case 'multipart':
+        // --form-string keeps values starting with @ or < from being read as files
+        serializeQuery(config.bodyTemplate, config.query).forEach(([key, value]) => {
+          const option = /^[@<]/.test(value) ? '--form-string' : '-F';
+          lines.push(`  ${option} ${shellQuote(`${key}=${value}`)}`);
+        });
+        break;
+      case 'xml':
+        lines.push(`  --data-raw ${shellQuote(encodeXml(config.bodyTemplate, config.xml))}`);
+        break;
+      default:
+        lines.push(`  --data-raw ${shellQuote(JSON.stringify(config.bodyTemplate))}`);
+    }
+  }
+  return lines.join(' \\\n');
+};
+
+/**
+ * Builds the cURL command for a request resolved from a row. Attached files
+ * are referenced by their name, relative to where the command is run.
+ */
+export const buildRequestCurl = (config: ApiConfig, request: BuiltRequest): string => {
+  const lines = [`curl -X ${request.method.toUpperCase()} ${shellQuote(request.url)}`];
+  Object.entries(request.headers).forEach(([key, value]) => {
+    lines.push(`  -H ${shellQuote(`${key}: ${value}`)}`);
+  });
+  if (request.hasBody && request.encoding === 'multipart') {
+    flattenFields(request.payload, config.query).forEach(([key, value]) => {
+      if (value instanceof Blob) {
+        lines.push(`  -F ${shellQuote(`${key}=@${(value as File).name}`)}`);
+        return;
+      }
+      const text = toParamText(value);
+      lines.push(`  ${/^[@<]/.test(text) ? '--form-string' : '-F'} ${shellQuote(`${key}=${text}`)}`);
+    });
+  } else if (request.hasBody) {
+    lines.push(`  --data-raw ${shellQuote(encodeBody(config, request.payload) as string)}`);
+  }
+  return lines.join(' \\\n');
+};
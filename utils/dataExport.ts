@@ -0,0 +1,28 @@
+import { utils, writeFile } from 'xlsx';
+import { CsvRow } from '../types';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+// Column order of the first row, followed by columns that only later rows have (e.g. extracted fields)
+export const collectHeaders = (rows: CsvRow[]): string[] => {
+  const headers = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => headers.add(key)));
+  return Array.from(headers);
+};
+
+// Saves the rows as a sheet and triggers the browser download
+export const downloadRows = (rows: Record<string, any>[], headers: string[], format: ExportFormat, baseName: string) => {
+  const sheet = utils.json_to_sheet(rows, { header: headers });
+  const workbook = utils.book_new();
+  utils.book_append_sheet(workbook, sheet, 'Data');
+  writeFile(workbook, `${baseName}.${format}`, { bookType: format });
+};
+
+export const downloadText = (text: string, fileName: string, mimeType = 'text/plain') => {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -1,33 +1,65 @@
-import { CsvRow, Mapping, DataType } from "../types";
+import { CsvRow, Mapping, DataType, PathRename, FieldDiagnostic } from "../types";
+import { FileIndex, findAttachedFile } from "./fileAttachments";
+import { parseCsvText } from "./csvParser";
 
 export const parseCSV = (text: string): { headers: string[], data: CsvRow[] } => {
   if (!text.trim()) return { headers: [], data: [] };
+  const { headers, data } = parseCsvText(text);
+  return { headers, data };
+};
 
-  const firstLine = text.split('\n')[0];
-  const delimiter = firstLine.includes('\t') ? '\t' : ',';
-  const lines = text.trim().split('\n');
-  
-  if (lines.length === 0) return { headers: [], data: [] };
+/**
+ * Writes a pasted block of cells into the grid starting at (startRow, startCol),
+ * adding rows and columns when the block extends past the current data.
+ */
+export const applyPastedGrid = (
+  rows: CsvRow[],
+  headers: string[],
+  grid: string[][],
+  startRow: number,
+  startCol: number
+): { rows: CsvRow[], headers: string[] } => {
+  const newHeaders = [...headers];
+  const width = Math.max(0, ...grid.map(r => r.length));
+  let columnNumber = newHeaders.length + 1;
+  while (newHeaders.length < startCol + width) {
+    while (newHeaders.includes(`Column ${columnNumber}`)) columnNumber++;
+    newHeaders.push(`Column ${columnNumber}`);
+  }
 
-  const headers = lines[0].split(delimiter).map(h => h.trim().replace(/^"|"$/g, ''));
-  const data: CsvRow[] = [];
+  const newRows = rows.map(r => ({ ...r }));
+  grid.forEach((cells, r) => {
+    const rowIndex = startRow + r;
+    if (!newRows[rowIndex]) {
+      const empty: CsvRow = {};
+      newHeaders.forEach(h => empty[h] = '');
+      newRows[rowIndex] = empty;
+    }
+    cells.forEach((value, c) => {
+      newRows[rowIndex][newHeaders[startCol + c]] = value;
+    });
+  });
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    const values = line.split(delimiter).map(v => v.trim().replace(/^"|"$/g, ''));
-    
-    const hasData = values.some(v => v !== '');
-    if (!hasData) continue;
+  // Existing rows get the new columns too
+  newRows.forEach(row => newHeaders.forEach(h => { if (row[h] === undefined) row[h] = ''; }));
+  return { rows: newRows, headers: newHeaders };
+};
 
-    const row: CsvRow = {};
-    headers.forEach((header, index) => {
-      row[header] = values[index] || '';
-    });
-    data.push(row);
+// Removes keys starting with _ recursively (e.g. _comment, __internal)
+export const cleanInternalKeys = (obj: any): any => {
+  if (Array.isArray(obj)) {
+    return obj.map(cleanInternalKeys);
   }
-
-  return { headers, data };
+  if (obj !== null && typeof obj === 'object') {
+    const newObj: any = {};
+    for (const key in obj) {
+      if (!key.startsWith('_')) {
+        newObj[key] = cleanInternalKeys(obj[key]);
+      }
+    }
+    return newObj;
+  }
+  return obj;
 };
 
 // Infers the data type from a value for initial setup
@@ -46,46 +78,295 @@ export const inferType = (value: any): DataType => {
     return 'string';
 };
 
-export const flattenObjectKeys = (obj: any): { path: string, type: DataType }[] => {
+const isPlainObject = (value: any): boolean =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Merges the keys of every object in an array so that sparse items still produce all paths
+const mergeArrayItems = (items: any[]): Record<string, any> => {
+    return items.filter(isPlainObject).reduce((acc, item) => {
+        for (const key in item) {
+            if (!(key in acc)) acc[key] = item[key];
+        }
+        return acc;
+    }, {});
+};
+
+/**
+ * Recursively flattens a body template into mapping paths that setDeep
+ * understands: nested objects become "a.b.c" and arrays of objects
+ * become "items[].sku". Every leaf gets an inferred type.
+ */
+export const flattenObjectKeys = (obj: any, prefix = ''): { path: string, type: DataType }[] => {
   const result: { path: string, type: DataType }[] = [];
   
   for (const key in obj) {
     const value = obj[key];
-    const type = inferType(value);
-    result.push({ path: key, type });
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+        result.push(...flattenObjectKeys(value, path));
+        continue;
+    }
+
+    if (Array.isArray(value) && value.length > 0) {
+        // Arrays of arrays can't be expressed as a path; keep them as raw JSON
+        if (Array.isArray(value[0])) {
+            result.push({ path, type: 'object' });
+            continue;
+        }
+        if (isPlainObject(value[0])) {
+            const merged = mergeArrayItems(value);
+            if (Object.keys(merged).length > 0) {
+                result.push(...flattenObjectKeys(merged, `${path}[]`));
+                continue;
+            }
+        }
+    }
+
+    result.push({ path, type: inferType(value) });
   }
   return result;
 };
 
-const castValue = (val: any, type: DataType): any => {
-    if (val === undefined || val === null) return val;
-    if (typeof val === 'object') return val;
+// Reads a value from the template using a mapping path; "[]" segments use the first item
+export const getTemplateValue = (template: any, path: string): any => {
+    return path.split('.').reduce((node, part) => {
+        if (node === undefined || node === null) return undefined;
+        if (part.endsWith('[]')) {
+            const arr = node[part.slice(0, -2)];
+            return Array.isArray(arr) ? mergeArrayItems(arr) : undefined;
+        }
+        return node[part];
+    }, template);
+};
+
+// "customer.address.city" -> "customer.address", "lines[].sku" -> "lines[]"
+export const getParentPath = (path: string): string | null => {
+    const lastDot = path.lastIndexOf('.');
+    return lastDot === -1 ? null : path.slice(0, lastDot);
+};
+
+/**
+ * Replaces every mapping under parentPath with a single raw-JSON mapping
+ * for the whole subtree.
+ */
+export const collapseMappings = (mappings: Mapping[], parentPath: string, template: any): Mapping[] => {
+    const targetPath = parentPath.replace(/\[\]$/, '');
+    const isInside = (m: Mapping) => isBodyMapping(m) && (
+        m.jsonPath === targetPath ||
+        m.jsonPath.startsWith(`${targetPath}.`) ||
+        m.jsonPath.startsWith(`${targetPath}[]`));
+
+    const firstIndex = mappings.findIndex(isInside);
+    if (firstIndex === -1) return mappings;
+
+    const subtree = getTemplateValue(template, targetPath);
+    const collapsed: Mapping = {
+        id: `collapsed-${Date.now()}`,
+        jsonPath: targetPath,
+        dataType: 'object',
+        csvHeader: '',
+        defaultValue: subtree !== undefined ? JSON.stringify(subtree) : ''
+    };
+
+    const remaining = mappings.filter(m => !isInside(m));
+    remaining.splice(firstIndex, 0, collapsed);
+    return remaining;
+};
+
+// Whether a raw-JSON mapping can be expanded back into nested field mappings
+export const canExpandMapping = (mapping: Mapping, template: any): boolean => {
+    if (mapping.dataType !== 'object' && mapping.dataType !== 'array_object') return false;
+    return flattenObjectKeys({ [mapping.jsonPath]: getTemplateValue(template, mapping.jsonPath) })
+        .some(k => k.path !== mapping.jsonPath);
+};
+
+export const expandMapping = (mappings: Mapping[], id: string, template: any): Mapping[] => {
+    const index = mappings.findIndex(m => m.id === id);
+    if (index === -1) return mappings;
+    const mapping = mappings[index];
+
+    const lastDot = mapping.jsonPath.lastIndexOf('.');
+    const prefix = lastDot === -1 ? '' : mapping.jsonPath.slice(0, lastDot);
+    const key = mapping.jsonPath.slice(lastDot + 1);
+    const existingPaths = new Set(mappings.map(m => m.jsonPath));
+
+    const expanded: Mapping[] = flattenObjectKeys({ [key]: getTemplateValue(template, mapping.jsonPath) }, prefix)
+        .filter(k => !existingPaths.has(k.path))
+        .map((k, idx) => ({
+            id: `expanded-${idx}-${Date.now()}`,
+            jsonPath: k.path,
+            dataType: k.type,
+            csvHeader: '',
+            defaultValue: ''
+        }));
+
+    return [...mappings.slice(0, index), ...expanded, ...mappings.slice(index + 1)];
+};
+
+export const isBodyMapping = (m: Mapping): boolean => !m.target || m.target === 'body';
+
+export const buildMappingsFromTemplate = (template: any): Mapping[] => {
+  return flattenObjectKeys(template || {}).map((k, idx) => ({
+      id: `map-${idx}-${Date.now()}`,
+      jsonPath: k.path,
+      dataType: k.type,
+      csvHeader: '',
+      defaultValue: ''
+  }));
+};
+
+const renamePath = (path: string, renames: PathRename[]): string => {
+    return renames.reduce((current, { from, to }) => {
+        if (current === from) return to;
+        if (current.startsWith(`${from}.`) || current.startsWith(`${from}[]`)) {
+            return to + current.slice(from.length);
+        }
+        return current;
+    }, path);
+};
+
+/**
+ * Brings existing mappings in line with an edited body template: renamed keys
+ * keep their mapping, removed keys drop theirs and new keys get a fresh one.
+ * Mappings the user added by hand are left untouched.
+ */
+export const syncMappingsWithTemplate = (
+    mappings: Mapping[],
+    prevTemplate: any,
+    nextTemplate: any,
+    renames: PathRename[] = []
+): Mapping[] => {
+    // Mappings are created lazily by DataMapper; nothing to keep in sync yet
+    if (mappings.length === 0) return mappings;
+
+    const prevPaths = new Set(flattenObjectKeys(prevTemplate || {}).map(k => renamePath(k.path, renames)));
+    const nextKeys = flattenObjectKeys(nextTemplate || {});
+    const nextPaths = new Set(nextKeys.map(k => k.path));
+
+    // Path, query and header mappings don't follow the body template
+    const kept = mappings
+        .map(m => {
+            if (!isBodyMapping(m)) return m;
+            const jsonPath = renamePath(m.jsonPath, renames);
+            return jsonPath === m.jsonPath ? m : { ...m, jsonPath };
+        })
+        .filter(m => !isBodyMapping(m) || !(prevPaths.has(m.jsonPath) && !nextPaths.has(m.jsonPath)));
+
+    const existingPaths = new Set(kept.filter(isBodyMapping).map(m => m.jsonPath));
+    const added = nextKeys
+        .filter(k => !prevPaths.has(k.path) && !existingPaths.has(k.path))
+        .map((k, idx) => ({
+            id: `map-added-${idx}-${Date.now()}`,
+            jsonPath: k.path,
+            dataType: k.type,
+            csvHeader: '',
+            defaultValue: ''
+        }));
+
+    return [...kept, ...added];
+};
+
+// reason is set when the value cannot be converted
+type CastResult = { value?: any, reason?: string };
+
+const TRUE_VALUES = ['true', '1', 'yes', 'y'];
+const FALSE_VALUES = ['false', '0', 'no', 'n', ''];
+
+const castValue = (val: any, type: DataType, files?: FileIndex): CastResult => {
+    if (val === undefined || val === null) return { value: val };
+    if (typeof val === 'object') return { value: val };
 
     const strVal = String(val).trim();
 
     switch (type) {
         case 'number':
-        case 'array_number':
-            if (strVal === '') return 0;
+        case 'array_number': {
+            if (strVal === '') return { value: 0 };
             const num = Number(strVal);
-            return isNaN(num) ? 0 : num;
-        case 'boolean':
-            return strVal.toLowerCase() === 'true' || strVal === '1';
+            return isFinite(num) ? { value: num } : { reason: 'is not a valid number' };
+        }
+        case 'boolean': {
+            const lower = strVal.toLowerCase();
+            if (TRUE_VALUES.includes(lower)) return { value: true };
+            if (FALSE_VALUES.includes(lower)) return { value: false };
+            return { reason: 'is not a boolean (expected true/false, 1/0 or yes/no)' };
+        }
         case 'object':
-            if (!strVal) return {};
-            try { return JSON.parse(strVal); } catch { return {}; }
+            if (!strVal) return { value: {} };
+            try { return { value: JSON.parse(strVal) }; } catch (e: any) { return { reason: `is not valid JSON (${e.message})` }; }
         case 'array_object':
             // Logic handled in constructPayload usually, but fallback here
-            if (!strVal) return [];
-            try { return JSON.parse(strVal); } catch { return []; }
+            if (!strVal) return { value: [] };
+            try { return { value: JSON.parse(strVal) }; } catch (e: any) { return { reason: `is not valid JSON (${e.message})` }; }
+        case 'file': {
+            const { file, reason } = findAttachedFile(files, strVal);
+            return reason ? { reason } : { value: file };
+        }
         default: 
-            return strVal;
+            return { value: strVal };
+    }
+};
+
+// The value a cast used to fall back to silently
+const typeDefault = (type: DataType): any => {
+    switch (type) {
+        case 'number':
+        case 'array_number': return 0;
+        case 'boolean': return false;
+        case 'object': return {};
+        case 'array_object': return [];
+        case 'file': return OMIT; // No file means no part
+        default: return '';
+    }
+};
+
+type EmptyValueSettings = Pick<Mapping, 'emptyPolicy' | 'emptyLiteral'>;
+
+// Value for an empty cell (or list item). Literals go through castLiteral so they get the target type.
+const resolveEmpty = (settings: EmptyValueSettings, type: DataType, castLiteral: (literal: string) => any, typeDefaultOverride?: any): any => {
+    switch (settings.emptyPolicy) {
+        case 'omit': return OMIT;
+        case 'null': return null;
+        case 'empty_string': return '';
+        case 'literal': {
+            const literal = settings.emptyLiteral ?? '';
+            if (isNullCell(literal)) return null;
+            return castLiteral(literal);
+        }
+        default: return typeDefaultOverride !== undefined ? typeDefaultOverride : typeDefault(type);
+    }
+};
+
+// Replacement for a value that failed to cast. For "fail_row" the row isn't sent; null keeps the preview readable.
+const resolveCastFailure = (m: Mapping, type: DataType, useMappingDefault: boolean, files?: FileIndex): any => {
+    if (m.castPolicy === 'use_default') {
+        if (useMappingDefault && m.defaultValue) {
+            const fallback = castValue(m.defaultValue, type, files);
+            if (!fallback.reason) return fallback.value;
+        }
+        return typeDefault(type);
     }
+    return null;
 };
 
+// Typed into a cell to send an explicit null, whatever the field type or empty-value policy
+export const NULL_CELL_TOKEN = '<null>';
+
+// Marks a value that must not be written at all; setDeep skips it
+const OMIT = Symbol('omit');
+
+const isNullCell = (val: any): boolean => typeof val === 'string' && val.trim() === NULL_CELL_TOKEN;
+const isEmptyCell = (val: any): boolean => val === undefined || (typeof val === 'string' && val.trim() === '');
+
+const withoutOmitted = (value: any): any => Array.isArray(value) ? value.filter(v => v !== OMIT) : value;
+
+export const formatDiagnostic = (d: FieldDiagnostic): string =>
+    `${d.jsonPath}: "${d.rawValue}" ${d.reason}`;
+
 const setDeep = (obj: any, path: string, value: any) => {
     // Handle empty path case (root assignment - usually not applicable here but good safety)
-    if (!path) return;
+    if (!path || value === OMIT) return;
     
     const parts = path.split('.');
     let current = obj;
@@ -104,7 +385,7 @@ const setDeep = (obj: any, path: string, value: any) => {
             const valuesToAssign = Array.isArray(value) ? value : [value];
 
             if (isLast) {
-                 current[key] = valuesToAssign;
+                 current[key] = withoutOmitted(valuesToAssign);
             } else {
                  valuesToAssign.forEach((val: any, index: number) => {
                      if (!arrayRef[index]) arrayRef[index] = {};
@@ -115,7 +396,7 @@ const setDeep = (obj: any, path: string, value: any) => {
             }
         } else {
             if (isLast) {
-                current[key] = value;
+                current[key] = withoutOmitted(value);
             } else {
                 if (!current[key]) current[key] = {};
                 current = current[key];
@@ -124,92 +405,154 @@ const setDeep = (obj: any, path: string, value: any) => {
     }
 };
 
-export const constructPayload = (row: CsvRow, mappings: Mapping[]): any => {
-    const body = {};
+export interface PayloadResult {
+    payload: any;
+    diagnostics: FieldDiagnostic[];
+    failed: boolean; // A "fail_row" field could not be cast, so the row must not be sent
+}
 
-    mappings.forEach(m => {
-        // 1. Determine Raw Value
-        let rawValue: any = undefined;
-        if (m.csvHeader && row[m.csvHeader] !== undefined) {
-            rawValue = row[m.csvHeader];
-        } else if (m.defaultValue !== undefined && m.defaultValue !== '') {
-            rawValue = m.defaultValue;
-        }
+// Value of one mapping for a row, after empty/null handling and casting. OMIT means "leave it out".
+const resolveMapping = (row: CsvRow, m: Mapping, diagnostics: FieldDiagnostic[], files?: FileIndex): any => {
+    // 1. Determine Raw Value
+    let rawValue: any = undefined;
+    if (m.csvHeader && row[m.csvHeader] !== undefined) {
+        rawValue = row[m.csvHeader];
+    } else if (m.defaultValue !== undefined && m.defaultValue !== '') {
+        rawValue = m.defaultValue;
+    }
 
-        if (rawValue === undefined) return;
+    if (rawValue === undefined) return OMIT;
+    if (isNullCell(rawValue)) return null;
 
-        let finalValue: any = rawValue;
+    const policy = m.castPolicy || 'fail_row';
+    const diagnosticsBefore = diagnostics.length;
+    const cast = (val: any, type: DataType, path: string, useMappingDefault = true): any => {
+        const result = castValue(val, type, files);
+        if (!result.reason) return result.value;
+        diagnostics.push({
+            mappingId: m.id,
+            jsonPath: path,
+            csvHeader: m.csvHeader || undefined,
+            rawValue: String(val),
+            targetType: type,
+            reason: result.reason,
+            policy
+        });
+        return resolveCastFailure(m, type, useMappingDefault, files);
+    };
+    // The null token and the empty-value policy apply before casting
+    const convert = (val: any, type: DataType, path: string, empty: EmptyValueSettings, useMappingDefault = true): any => {
+        if (isNullCell(val)) return null;
+        if (isEmptyCell(val)) return resolveEmpty(empty, type, literal => cast(literal, type, path, useMappingDefault));
+        return cast(val, type, path, useMappingDefault);
+    };
+    const finish = (value: any) =>
+        policy === 'omit_field' && diagnostics.length > diagnosticsBefore ? OMIT : value;
 
-        // 2. SPECIAL HANDLING FOR ARRAY OBJECT (Structured Parsing)
-        if (m.dataType === 'array_object' && typeof rawValue === 'string' && m.csvHeader) {
-            const separator = m.transformation?.separator || ',';
-            const itemSeparator = m.transformation?.itemSeparator || '*';
-            
-            // a. Split main list: "(HAN*SGN), (HAN*AAA)" -> ["(HAN*SGN)", "(HAN*AAA)"]
-            const rawList = rawValue.split(separator);
-            
-            finalValue = rawList.map(rawItem => {
-                // b. Clean wrapper chars: "(HAN*SGN)" -> "HAN*SGN"
-                const cleanItem = rawItem.trim().replace(/^[\(\[\{]+|[\)\]\}]+$/g, '');
-                
-                // c. Split internal values: "HAN*SGN" -> ["HAN", "SGN"]
-                const values = cleanItem.split(itemSeparator).map(v => v.trim());
-                
-                // d. Map to object using internalFields
-                const obj: any = {};
-                if (m.internalFields && m.internalFields.length > 0) {
-                    m.internalFields.forEach(field => {
-                        const valAtIndex = values[field.index];
-                        // Get the value. If missing, empty string.
-                        const finalVal = valAtIndex !== undefined ? castValue(valAtIndex, field.dataType) : '';
-                        
-                        // Use setDeep to allow nested keys like "details.color" inside the array item
-                        setDeep(obj, field.key, finalVal);
-                    });
-                } else {
-                    // Fallback
-                    return { raw: cleanItem }; 
-                }
-                return obj;
-            });
+    // An empty cell applies the mapping's policy to the whole field
+    if (isEmptyCell(rawValue)) {
+        const isArrayField = m.dataType.startsWith('array_');
+        return finish(resolveEmpty(m, m.dataType, literal => {
+            if (!isArrayField) return cast(literal, m.dataType, m.jsonPath);
+            return literal.split(m.transformation?.separator || ',').map(v => cast(v.trim(), m.dataType, m.jsonPath));
+        }, isArrayField ? [] : undefined));
+    }
 
-            // Skip the generic transformation/casting below for this specific type
-            setDeep(body, m.jsonPath, finalValue);
-            return; 
-        }
+    let finalValue: any = rawValue;
 
-        // 3. Generic Transformation (Simple Arrays)
-        if (m.transformation?.enabled && typeof rawValue === 'string') {
-            const separator = m.transformation.separator || ',';
-            let listParts = rawValue.split(separator).map(s => s.trim());
+    // 2. SPECIAL HANDLING FOR ARRAY OBJECT (Structured Parsing)
+    if (m.dataType === 'array_object' && typeof rawValue === 'string' && m.csvHeader) {
+        const separator = m.transformation?.separator || ',';
+        const itemSeparator = m.transformation?.itemSeparator || '*';
+        
+        // a. Split main list: "(HAN*SGN), (HAN*AAA)" -> ["(HAN*SGN)", "(HAN*AAA)"]
+        const rawList = rawValue.split(separator);
+        
+        finalValue = rawList.map((rawItem, itemIdx) => {
+            // b. Clean wrapper chars: "(HAN*SGN)" -> "HAN*SGN"
+            const cleanItem = rawItem.trim().replace(/^[\(\[\{]+|[\)\]\}]+$/g, '');
+            
+            // c. Split internal values: "HAN*SGN" -> ["HAN", "SGN"]
+            const values = cleanItem.split(itemSeparator).map(v => v.trim());
             
-            // Inner Split (Positional) logic for simple arrays
-            if (m.transformation.itemSeparator) {
-                listParts = listParts.map(part => {
-                    const cleanPart = part.replace(/^[\(\[\{]+|[\)\]\}]+$/g, '');
-                    const subParts = cleanPart.split(m.transformation.itemSeparator!).map(s => s.trim());
-                    const idx = m.transformation.itemIndex || 0;
-                    return subParts[idx] !== undefined ? subParts[idx] : '';
+            // d. Map to object using internalFields
+            const obj: any = {};
+            if (m.internalFields && m.internalFields.length > 0) {
+                m.internalFields.forEach(field => {
+                    // A missing position counts as an empty value
+                    const finalVal = convert(values[field.index], field.dataType, `${m.jsonPath}[${itemIdx}].${field.key}`, field, false);
+                    
+                    // Use setDeep to allow nested keys like "details.color" inside the array item
+                    setDeep(obj, field.key, finalVal);
                 });
+            } else {
+                // Fallback
+                return { raw: cleanItem }; 
             }
-            finalValue = listParts;
-        }
+            return obj;
+        });
+
+        // Skip the generic transformation/casting below for this specific type
+        return finish(finalValue);
+    }
 
-        // 4. Generic Type Casting
-        const isArrayType = m.dataType.startsWith('array_');
+    // 3. Generic Transformation (Simple Arrays)
+    if (m.transformation?.enabled && typeof rawValue === 'string') {
+        const separator = m.transformation.separator || ',';
+        let listParts = rawValue.split(separator).map(s => s.trim());
         
-        if (isArrayType && !Array.isArray(finalValue)) {
-            finalValue = [finalValue];
+        // Inner Split (Positional) logic for simple arrays
+        if (m.transformation.itemSeparator) {
+            listParts = listParts.map(part => {
+                const cleanPart = part.replace(/^[\(\[\{]+|[\)\]\}]+$/g, '');
+                const subParts = cleanPart.split(m.transformation.itemSeparator!).map(s => s.trim());
+                const idx = m.transformation.itemIndex || 0;
+                return subParts[idx] !== undefined ? subParts[idx] : '';
+            });
         }
+        finalValue = listParts;
+    }
 
-        if (Array.isArray(finalValue)) {
-            finalValue = finalValue.map(v => castValue(v, m.dataType));
-        } else {
-            finalValue = castValue(finalValue, m.dataType);
-        }
+    // 4. Generic Type Casting
+    const isArrayType = m.dataType.startsWith('array_');
+    
+    if (isArrayType && !Array.isArray(finalValue)) {
+        finalValue = [finalValue];
+    }
 
-        setDeep(body, m.jsonPath, finalValue);
-    });
+    if (Array.isArray(finalValue)) {
+        finalValue = finalValue.map(v => convert(v, m.dataType, m.jsonPath, m));
+    } else {
+        finalValue = convert(finalValue, m.dataType, m.jsonPath, m);
+    }
+
+    return finish(finalValue);
+};
+
+// File fields resolve against the attached files; without them every file reference fails to cast
+export const constructPayload = (row: CsvRow, mappings: Mapping[], files?: FileIndex): PayloadResult => {
+    const body = {};
+    const diagnostics: FieldDiagnostic[] = [];
+
+    mappings.filter(isBodyMapping).forEach(m => setDeep(body, m.jsonPath, resolveMapping(row, m, diagnostics, files)));
+
+    return {
+        payload: body,
+        diagnostics,
+        failed: diagnostics.some(d => d.policy === 'fail_row')
+    };
+};
 
-    return body;
-};
\ No newline at end of file
+/**
+ * Resolves mappings that don't go into the body (path, query, header) to
+ * their values, keyed by mapping id. Omitted values are left out.
+ */
+export const resolveMappingValues = (row: CsvRow, mappings: Mapping[], files?: FileIndex): { values: Record<string, any>, diagnostics: FieldDiagnostic[] } => {
+    const values: Record<string, any> = {};
+    const diagnostics: FieldDiagnostic[] = [];
+    mappings.forEach(m => {
+        const value = resolveMapping(row, m, diagnostics, files);
+        if (value !== OMIT) values[m.id] = value;
+    });
+    return { values, diagnostics };
+};
@@ -0,0 +1,179 @@
+import { BodyEncoding, CsvRow, Mapping, RequestStep } from "../types";
+import { buildRequest, describeRequestFailure, flattenFields, maskSecretHeaders, toParamText } from "./requestBuilder";
+import { previewBody } from "./bodyEncoders";
+import { FileIndex } from "./fileAttachments";
+import { buildRequestCurl } from "./curlParser";
+import { runPreflight } from "./validation";
+import { formatStepLabel, getChainedColumns } from "./requestSteps";
+
+// A request as the job would send it, resolved without touching the network
+export interface DryRunRequest {
+  rowIndex: number;
+  step: number;
+  stepLabel: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  encoding: BodyEncoding;
+  body?: string;        // Readable body; multipart parts one per line. Unset for methods without a body
+  curl: string;
+  httpBody?: string;    // Body in .http file syntax
+  problems: string[];   // Why the request would not be sent
+  warnings: string[];
+  chainedColumns: string[]; // Filled from earlier responses while the job runs; shown as {{column}}
+}
+
+export interface DryRunResult {
+  requests: DryRunRequest[];
+  rowCount: number;
+  blockedRows: number;
+  ruleErrors: string[]; // Setup problems that stop the whole job, prefixed with the step when there are several
+  includeSecrets: boolean; // Otherwise credential headers are masked, as in the request inspector
+}
+
+const HTTP_FILE_BOUNDARY = '----AutoApiPusherBoundary';
+
+// Column values that only exist once an earlier step has run
+const chainToken = (column: string) => `{{${column}}}`;
+
+// Mappings that read a chained column take its {{token}} as text, so casts and transformations leave it as it is
+const withChainTokens = (row: CsvRow, mappings: Mapping[], columns: string[]): { row: CsvRow, mappings: Mapping[] } => ({
+  row: { ...row, ...Object.fromEntries(columns.map(column => [column, chainToken(column)])) },
+  mappings: mappings.map(m => m.csvHeader && columns.includes(m.csvHeader)
+    ? { ...m, dataType: 'string' as const, transformation: undefined, internalFields: undefined }
+    : m),
+});
+
+// URLs and form bodies percent-encode the token; it is shown as written, the way .http files expect it
+const showChainTokens = (text: string, columns: string[]): string =>
+  columns.reduce((result, column) => result.split(encodeURIComponent(chainToken(column))).join(chainToken(column)), text);
+
+/**
+ * Resolves method, URL, headers and body of every step for every row, and
+ * collects the build failures and pre-flight problems that would stop it. A
+ * row's later steps are left out once a step would fail. Credential headers
+ * are masked unless `includeSecrets` is set.
+ */
+export const buildDryRun = (steps: RequestStep[], rows: CsvRow[], files?: FileIndex, includeSecrets = false): DryRunResult => {
+  const perStep = steps.map((step, index) => {
+    const chained = getChainedColumns(steps, index).map(c => c.column);
+    const preflight = runPreflight(step.config, rows, step.mappings, files, new Set(chained));
+    const problems = new Map<number, { errors: string[], warnings: string[] }>();
+    preflight.violations.forEach(v => {
+      const entry = problems.get(v.rowIndex) || { errors: [], warnings: [] };
+      (v.severity === 'error' ? entry.errors : entry.warnings).push(`${v.jsonPath ? `${v.jsonPath}: ` : ''}${v.message}`);
+      problems.set(v.rowIndex, entry);
+    });
+    return { chained, problems, ruleErrors: preflight.ruleErrors, label: steps.length > 1 ? formatStepLabel(steps, index) : '' };
+  });
+  const ruleErrors = perStep.flatMap(({ ruleErrors, label }) => ruleErrors.map(error => label ? `${label}: ${error}` : error));
+
+  const requests: DryRunRequest[] = [];
+  let blockedRows = 0;
+  rows.forEach((row, rowIndex) => {
+    for (let index = 0; index < steps.length; index++) {
+      const { config, mappings } = steps[index];
+      const { chained, problems, ruleErrors: stepRuleErrors, label } = perStep[index];
+      const chainedColumns = chained.filter(column => !(row[column] ?? '').trim() && mappings.some(m => m.csvHeader === column));
+      const source = withChainTokens(row, mappings, chainedColumns);
+      const built = buildRequest(config, source.row, source.mappings, files);
+      const found = problems.get(rowIndex) || { errors: [], warnings: [] };
+      // A rule error blocks the job before any row is sent
+      const errors = [...stepRuleErrors, ...(built.failed ? [describeRequestFailure(built)] : found.errors)];
+      const url = showChainTokens(built.url, chainedColumns);
+      const headers = includeSecrets ? built.headers : maskSecretHeaders(built.headers);
+      const httpBody = built.hasBody ? (built.encoding === 'multipart'
+        ? [
+            ...flattenFields(built.payload, config.query).map(([key, value]) => value instanceof Blob
+              ? `--${HTTP_FILE_BOUNDARY}\nContent-Disposition: form-data; name="${key}"; filename="${(value as File).name}"\n\n< ./${(value as File).name}`
+              : `--${HTTP_FILE_BOUNDARY}\nContent-Disposition: form-data; name="${key}"\n\n${toParamText(value)}`),
+            `--${HTTP_FILE_BOUNDARY}--`,
+          ].join('\n')
+        : previewBody(config, built.payload)) : undefined;
+      const body = built.hasBody ? previewBody(config, built.payload) : undefined;
+      const showInBody = (text: string) => built.encoding === 'form' ? showChainTokens(text, chainedColumns) : text;
+
+      requests.push({
+        rowIndex,
+        step: index,
+        stepLabel: label,
+        method: built.method,
+        url,
+        headers,
+        encoding: built.encoding,
+        body: body !== undefined ? showInBody(body) : undefined,
+        curl: showInBody(buildRequestCurl(config, { ...built, url, headers })),
+        httpBody: httpBody !== undefined ? showInBody(httpBody) : undefined,
+        problems: errors,
+        warnings: found.warnings,
+        chainedColumns,
+      });
+      if (errors.length > 0) {
+        blockedRows++;
+        break;
+      }
+    }
+  });
+  return { requests, rowCount: rows.length, blockedRows, ruleErrors, includeSecrets };
+};
+
+const describeRequest = (request: DryRunRequest): string =>
+  `Row ${request.rowIndex + 1}${request.stepLabel ? `, ${request.stepLabel}` : ''}`;
+
+// JSON bodies are embedded as objects, other encodings as text
+export const dryRunToJson = (result: DryRunResult): string => JSON.stringify(result.requests.map(request => {
+  let body: any = request.body;
+  if (body !== undefined && request.encoding === 'json') {
+    try {
+      body = JSON.parse(body);
+    } catch { /* keep the text */ }
+  }
+  return {
+    row: request.rowIndex + 1,
+    ...(request.stepLabel && { step: request.stepLabel }),
+    method: request.method,
+    url: request.url,
+    headers: request.headers,
+    ...(body !== undefined && { body }),
+    wouldSend: request.problems.length === 0,
+    ...(request.problems.length > 0 && { problems: request.problems }),
+    ...(request.warnings.length > 0 && { warnings: request.warnings }),
+  };
+}), null, 2);
+
+// Requests that would fail stay in the script, commented out
+export const dryRunToCurlScript = (result: DryRunResult): string => [
+  '#!/bin/sh',
+  [
+    `# ${result.requests.length} requests for ${result.rowCount} rows; nothing was sent while generating this file.`,
+    ...result.ruleErrors.map(error => `# Blocked by a pre-flight rule: ${error}`),
+    ...(result.includeSecrets ? [] : ['# Credential headers are masked; fill them in before running the commands.']),
+  ].join('\n'),
+  ...result.requests.map(request => {
+    const header = [`# ${describeRequest(request)}`];
+    if (request.chainedColumns.length > 0) header.push(`# Replace ${request.chainedColumns.map(chainToken).join(', ')} with values from the earlier responses`);
+    if (request.problems.length > 0) {
+      return [...header, ...request.problems.map(p => `# Would not be sent: ${p}`), ...request.curl.split('\n').map(line => `# ${line}`)].join('\n');
+    }
+    return [...header, request.curl].join('\n');
+  }),
+].join('\n\n') + '\n';
+
+// For the REST Client / JetBrains HTTP client; {{column}} placeholders are their variable syntax
+export const dryRunToHttpFile = (result: DryRunResult): string => [
+  ...(result.ruleErrors.length > 0 ? [result.ruleErrors.map(error => `# Blocked by a pre-flight rule: ${error}`).join('\n')] : []),
+  ...result.requests.map(request => {
+    const lines = [`### ${describeRequest(request)}`];
+    request.problems.forEach(p => lines.push(`# Would not be sent: ${p}`));
+    const prefix = request.problems.length > 0 ? '# ' : '';
+    lines.push(`${prefix}${request.method.toUpperCase()} ${request.url}`);
+    const headers = { ...request.headers };
+    if (request.encoding === 'multipart' && request.httpBody !== undefined) headers['Content-Type'] = `multipart/form-data; boundary=${HTTP_FILE_BOUNDARY}`;
+    Object.entries(headers).forEach(([key, value]) => lines.push(`${prefix}${key}: ${value}`));
+    if (request.httpBody !== undefined) {
+      lines.push('');
+      request.httpBody.split('\n').forEach(line => lines.push(`${prefix}${line}`));
+    }
+    return lines.join('\n');
+  }),
+].join('\n\n') + '\n';
@@ -0,0 +1,146 @@
+import { WorkBook, WorkSheet, CellObject, Range, utils } from 'xlsx';
+import { CsvRow } from "../types";
+import { normalizeHeaders } from "./csvParser";
+
+export type CellValueMode = 'computed' | 'formulas';
+
+export interface SheetImportOptions {
+  headerRow: number;     // 1-based row that holds the column names
+  range?: string;        // Optional A1 range limiting columns and data rows, e.g. "A5:K2000"
+  valueMode: CellValueMode;
+}
+
+export interface WorkbookImportOptions extends SheetImportOptions {
+  sheets: string[];
+  sourceColumn?: string; // Adds a column with the sheet name when set
+}
+
+export const DEFAULT_SOURCE_COLUMN = 'Source Sheet';
+
+const A1_RANGE_PATTERN = /^[A-Z]{1,3}[1-9]\d*(:[A-Z]{1,3}[1-9]\d*)?$/i;
+
+// Returns null for an empty input, throws for an invalid one
+export const parseRangeInput = (input: string): Range | null => {
+  const trimmed = input.trim().toUpperCase();
+  if (!trimmed) return null;
+  if (!A1_RANGE_PATTERN.test(trimmed)) {
+    throw new Error(`"${input}" is not a valid cell range. Use a form like A5:K2000.`);
+  }
+  const range = utils.decode_range(trimmed.includes(':') ? trimmed : `${trimmed}:${trimmed}`);
+  if (range.s.r > range.e.r || range.s.c > range.e.c) {
+    throw new Error(`Range "${input}" must go from the top-left to the bottom-right cell.`);
+  }
+  return range;
+};
+
+const getSheetRange = (ws: WorkSheet): Range | null => ws['!ref'] ? utils.decode_range(ws['!ref']) : null;
+
+// Maps every cell inside a merged area to the top-left cell that holds its value
+const buildMergeLookup = (ws: WorkSheet): Map<string, string> => {
+  const lookup = new Map<string, string>();
+  (ws['!merges'] || []).forEach(merge => {
+    const origin = utils.encode_cell(merge.s);
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        if (r !== merge.s.r || c !== merge.s.c) lookup.set(utils.encode_cell({ r, c }), origin);
+      }
+    }
+  });
+  return lookup;
+};
+
+const cellText = (cell: CellObject | undefined, valueMode: CellValueMode): string => {
+  if (!cell) return '';
+  if (valueMode === 'formulas' && cell.f) return `=${cell.f}`;
+  if (cell.w !== undefined) return cell.w;
+  if (cell.v === undefined || cell.v === null) return '';
+  return cell.v instanceof Date ? cell.v.toISOString() : String(cell.v);
+};
+
+const readCell = (ws: WorkSheet, merges: Map<string, string>, r: number, c: number, valueMode: CellValueMode): string => {
+  const address = utils.encode_cell({ r, c });
+  return cellText(ws[merges.get(address) || address] as CellObject | undefined, valueMode);
+};
+
+// First rows and columns of a sheet as display text, with merged cells filled in
+export const getSheetPreview = (ws: WorkSheet, maxRows = 20, maxCols = 15): string[][] => {
+  const range = getSheetRange(ws);
+  if (!range) return [];
+  const merges = buildMergeLookup(ws);
+  const rows: string[][] = [];
+  for (let r = 0; r <= Math.min(range.e.r, maxRows - 1); r++) {
+    const row: string[] = [];
+    for (let c = 0; c <= Math.min(range.e.c, maxCols - 1); c++) {
+      row.push(readCell(ws, merges, r, c, 'computed'));
+    }
+    rows.push(row);
+  }
+  return rows;
+};
+
+export const extractSheetRows = (ws: WorkSheet, options: SheetImportOptions): { headers: string[], data: CsvRow[] } => {
+  const sheetRange = getSheetRange(ws);
+  if (!sheetRange) return { headers: [], data: [] };
+
+  const headerIndex = options.headerRow - 1;
+  const userRange = options.range ? parseRangeInput(options.range) : null;
+  const startCol = userRange ? userRange.s.c : sheetRange.s.c;
+  const endCol = userRange ? userRange.e.c : sheetRange.e.c;
+  // Data starts below the header even when the range begins above it
+  const startRow = Math.max(headerIndex + 1, userRange ? userRange.s.r : 0);
+  const endRow = Math.min(userRange ? userRange.e.r : sheetRange.e.r, sheetRange.e.r);
+
+  const merges = buildMergeLookup(ws);
+
+  const rawHeaders: string[] = [];
+  for (let c = startCol; c <= endCol; c++) {
+    rawHeaders.push(readCell(ws, merges, headerIndex, c, 'computed').trim() || utils.encode_col(c));
+  }
+  const headers = normalizeHeaders(rawHeaders);
+
+  const data: CsvRow[] = [];
+  for (let r = startRow; r <= endRow; r++) {
+    const row: CsvRow = {};
+    let hasData = false;
+    headers.forEach((header, idx) => {
+      const value = readCell(ws, merges, r, startCol + idx, options.valueMode);
+      if (value !== '') hasData = true;
+      row[header] = value;
+    });
+    if (hasData) data.push(row);
+  }
+
+  return { headers, data };
+};
+
+/**
+ * Reads the selected sheets with the same options and merges them into
+ * one dataset. Columns are the union of all sheets' headers.
+ */
+export const importWorkbookSheets = (wb: WorkBook, options: WorkbookImportOptions): { headers: string[], data: CsvRow[] } => {
+  const headers: string[] = [];
+  const data: CsvRow[] = [];
+  const sourceColumn = options.sourceColumn?.trim();
+  if (sourceColumn) headers.push(sourceColumn);
+
+  options.sheets.forEach(sheetName => {
+    const ws = wb.Sheets[sheetName];
+    if (!ws) return;
+    const result = extractSheetRows(ws, options);
+    result.headers.forEach(h => {
+      if (!headers.includes(h)) headers.push(h);
+    });
+    result.data.forEach(row => {
+      data.push(sourceColumn ? { [sourceColumn]: sheetName, ...row } : row);
+    });
+  });
+
+  // Fill in columns that only exist in some of the sheets
+  const normalized = data.map(row => {
+    const full: CsvRow = {};
+    headers.forEach(h => full[h] = row[h] ?? '');
+    return full;
+  });
+
+  return { headers, data: normalized };
+};
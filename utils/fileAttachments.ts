@@ -0,0 +1,64 @@
+// Files attached in the mapping step, looked up by the names in "file" columns
+export interface FileIndex {
+  files: File[];
+  byPath: Map<string, File>;   // Lower-cased path inside the attached folder, or the file name
+  byName: Map<string, File[]>; // Lower-cased base name; several files may share one across folders
+}
+
+const normalizePath = (path: string): string =>
+  path.trim().replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '').toLowerCase();
+
+// Path of a file relative to the attached folder, or its name for loose files
+const getRelativePath = (file: File): string => {
+  const relative = file.webkitRelativePath;
+  if (!relative) return file.name;
+  const slash = relative.indexOf('/');
+  return slash === -1 ? relative : relative.slice(slash + 1);
+};
+
+/**
+ * Indexes files for lookup. A file can be referenced by its name, by its path
+ * inside the attached folder, or by that path including the folder name.
+ */
+export const indexFiles = (files: File[]): FileIndex => {
+  const byPath = new Map<string, File>();
+  const byName = new Map<string, File[]>();
+  files.forEach(file => {
+    byPath.set(normalizePath(getRelativePath(file)), file);
+    if (file.webkitRelativePath) byPath.set(normalizePath(file.webkitRelativePath), file);
+    const name = file.name.toLowerCase();
+    byName.set(name, [...(byName.get(name) || []), file]);
+  });
+  return { files, byPath, byName };
+};
+
+// Adds newly picked files; a file with the same path replaces the earlier one
+export const mergeFiles = (existing: File[], added: File[]): File[] => {
+  const keyOf = (file: File) => normalizePath(file.webkitRelativePath || file.name);
+  const addedKeys = new Set(added.map(keyOf));
+  return [...existing.filter(file => !addedKeys.has(keyOf(file))), ...added];
+};
+
+// reason is set when the reference doesn't resolve to exactly one file
+export const findAttachedFile = (index: FileIndex | undefined, reference: string): { file?: File, reason?: string } => {
+  if (!index || index.files.length === 0) return { reason: 'cannot be uploaded because no files are attached' };
+  const path = normalizePath(reference);
+  const exact = index.byPath.get(path);
+  if (exact) return { file: exact };
+  if (!path.includes('/')) {
+    const matches = index.byName.get(path) || [];
+    if (matches.length === 1) return { file: matches[0] };
+    if (matches.length > 1) return { reason: `matches ${matches.length} attached files; use the path inside the folder` };
+  }
+  return { reason: 'is not among the attached files' };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// JSON.stringify replacer that writes attached files as their name
+export const fileNameReplacer = (_key: string, value: any): any =>
+  value instanceof Blob ? (value as File).name ?? '' : value;
@@ -0,0 +1,338 @@
+import { GraphQLConfig, GraphQLInputType, GraphQLTypeRef } from "../types";
+import { isPlainObject } from "./requestBuilder";
+
+export type GraphQLOperationType = 'query' | 'mutation' | 'subscription';
+
+export interface GraphQLVariable {
+  name: string;
+  type: GraphQLTypeRef;
+  defaultValue?: string; // Source text of the default value
+}
+
+export interface GraphQLOperation {
+  type: GraphQLOperationType;
+  name?: string;
+  variables: GraphQLVariable[];
+}
+
+interface Token {
+  kind: 'punct' | 'name' | 'value';
+  text: string;
+}
+
+const OPERATION_TYPES: GraphQLOperationType[] = ['query', 'mutation', 'subscription'];
+const PUNCTUATORS = '!$&()[]{}:=@|';
+const NAME_PATTERN = /[_A-Za-z][_0-9A-Za-z]*/y;
+const NUMBER_PATTERN = /-?\d+(\.\d+)?([eE][+-]?\d+)?/y;
+
+// Splits a GraphQL document into tokens, dropping whitespace, commas and comments
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/[\s,\uFEFF]/.test(ch)) { i++; continue; }
+    if (ch === '#') {
+      while (i < source.length && source[i] !== '\n' && source[i] !== '\r') i++;
+      continue;
+    }
+    if (source.startsWith('"""', i)) {
+      let end = source.indexOf('"""', i + 3);
+      while (end !== -1 && source[end - 1] === '\\') end = source.indexOf('"""', end + 3);
+      if (end === -1) throw new Error('Unterminated block string in GraphQL document.');
+      tokens.push({ kind: 'value', text: source.slice(i, end + 3) });
+      i = end + 3;
+      continue;
+    }
+    if (ch === '"') {
+      let j = i + 1;
+      while (j < source.length && source[j] !== '"') {
+        if (source[j] === '\n') throw new Error('Unterminated string in GraphQL document.');
+        j += source[j] === '\\' ? 2 : 1;
+      }
+      if (j >= source.length) throw new Error('Unterminated string in GraphQL document.');
+      tokens.push({ kind: 'value', text: source.slice(i, j + 1) });
+      i = j + 1;
+      continue;
+    }
+    if (source.startsWith('...', i)) {
+      tokens.push({ kind: 'punct', text: '...' });
+      i += 3;
+      continue;
+    }
+    if (PUNCTUATORS.includes(ch)) {
+      tokens.push({ kind: 'punct', text: ch });
+      i++;
+      continue;
+    }
+    NAME_PATTERN.lastIndex = i;
+    const name = NAME_PATTERN.exec(source);
+    if (name) {
+      tokens.push({ kind: 'name', text: name[0] });
+      i += name[0].length;
+      continue;
+    }
+    NUMBER_PATTERN.lastIndex = i;
+    const num = NUMBER_PATTERN.exec(source);
+    if (num) {
+      tokens.push({ kind: 'value', text: num[0] });
+      i += num[0].length;
+      continue;
+    }
+    throw new Error(`Unexpected character "${ch}" in GraphQL document.`);
+  }
+  return tokens;
+};
+
+/**
+ * Lists the operations in a GraphQL document with their variable
+ * definitions. Selection sets are skipped, so only the operation headers
+ * need to be well formed.
+ */
+export const parseOperations = (document: string): GraphQLOperation[] => {
+  const tokens = tokenize(document);
+  const operations: GraphQLOperation[] = [];
+  let i = 0;
+  let depth = 0;
+  let expectingSelection = false;
+
+  const peek = () => tokens[i]?.text;
+  const expect = (text: string) => {
+    if (peek() !== text) throw new Error(`Expected "${text}" in GraphQL variable definitions but found "${peek() ?? 'end of document'}".`);
+    i++;
+  };
+  const expectName = (): string => {
+    if (tokens[i]?.kind !== 'name') throw new Error(`Expected a name in GraphQL variable definitions but found "${peek() ?? 'end of document'}".`);
+    return tokens[i++].text;
+  };
+  const skipBalanced = (open: string, close: string) => {
+    let level = 0;
+    do {
+      if (i >= tokens.length) throw new Error(`Missing "${close}" in GraphQL document.`);
+      if (tokens[i].text === open) level++;
+      else if (tokens[i].text === close) level--;
+      i++;
+    } while (level > 0);
+  };
+  const parseType = (): GraphQLTypeRef => {
+    let type: GraphQLTypeRef;
+    if (peek() === '[') {
+      i++;
+      type = { kind: 'LIST', ofType: parseType() };
+      expect(']');
+    } else {
+      type = { kind: 'NAMED', name: expectName() };
+    }
+    if (peek() === '!') {
+      i++;
+      type = { kind: 'NON_NULL', ofType: type };
+    }
+    return type;
+  };
+  const parseVariable = (): GraphQLVariable => {
+    expect('$');
+    const name = expectName();
+    expect(':');
+    const variable: GraphQLVariable = { name, type: parseType() };
+    if (peek() === '=') {
+      i++;
+      const start = i;
+      if (peek() === '[') skipBalanced('[', ']');
+      else if (peek() === '{') skipBalanced('{', '}');
+      else i++;
+      variable.defaultValue = tokens.slice(start, i).map(t => t.text).join(' ');
+    }
+    while (peek() === '@') {
+      i++;
+      expectName();
+      if (peek() === '(') skipBalanced('(', ')');
+    }
+    return variable;
+  };
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (depth === 0 && token.kind === 'name' && OPERATION_TYPES.includes(token.text as GraphQLOperationType)) {
+      i++;
+      const operation: GraphQLOperation = { type: token.text as GraphQLOperationType, variables: [] };
+      if (tokens[i]?.kind === 'name') operation.name = tokens[i++].text;
+      if (peek() === '(') {
+        i++;
+        while (i < tokens.length && peek() !== ')') operation.variables.push(parseVariable());
+        expect(')');
+      }
+      operations.push(operation);
+      expectingSelection = true;
+      continue;
+    }
+    if (depth === 0 && token.kind === 'name' && token.text === 'fragment') expectingSelection = true;
+    if (token.text === '{') {
+      // "{ ... }" without a header is a shorthand query
+      if (depth === 0 && !expectingSelection) operations.push({ type: 'query', variables: [] });
+      if (depth === 0) expectingSelection = false;
+      depth++;
+    } else if (token.text === '}') {
+      depth--;
+    }
+    i++;
+  }
+
+  if (depth !== 0) throw new Error('Unbalanced braces in GraphQL document.');
+  return operations;
+};
+
+// The operation a request runs: the named one, or the only one in the document
+export const selectOperation = (operations: GraphQLOperation[], operationName?: string): GraphQLOperation => {
+  if (operations.length === 0) throw new Error('The GraphQL document has no operation.');
+  if (operationName) {
+    const named = operations.find(op => op.name === operationName);
+    if (!named) throw new Error(`The GraphQL document has no operation named "${operationName}".`);
+    return named;
+  }
+  if (operations.length > 1) throw new Error('The GraphQL document has several operations; choose one by name.');
+  return operations[0];
+};
+
+export const formatTypeRef = (type: GraphQLTypeRef): string => {
+  if (type.kind === 'NON_NULL') return `${formatTypeRef(type.ofType!)}!`;
+  if (type.kind === 'LIST') return `[${formatTypeRef(type.ofType!)}]`;
+  return type.name || '?';
+};
+
+const toTypeRef = (type: any): GraphQLTypeRef => {
+  // Introspection queries cut the ofType chain off at a fixed depth
+  if (!type) return { kind: 'NAMED', name: 'String' };
+  if (type.kind === 'NON_NULL' || type.kind === 'LIST') return { kind: type.kind, ofType: toTypeRef(type.ofType) };
+  return { kind: 'NAMED', name: type.name };
+};
+
+/**
+ * Keeps the input objects, enums and scalars of an introspection result,
+ * which is all that is needed to expand variables. Accepts the raw response
+ * ({ data: { __schema } }) or just its data.
+ */
+export const parseIntrospection = (json: any): Record<string, GraphQLInputType> => {
+  const schema = json?.data?.__schema || json?.__schema;
+  if (!schema || !Array.isArray(schema.types)) {
+    throw new Error('Not an introspection result: "__schema.types" is missing.');
+  }
+  const types: Record<string, GraphQLInputType> = {};
+  schema.types.forEach((t: any) => {
+    if (!t?.name || t.name.startsWith('__')) return;
+    if (t.kind === 'INPUT_OBJECT') {
+      types[t.name] = { kind: 'INPUT_OBJECT', fields: (t.inputFields || []).map((f: any) => ({ name: f.name, type: toTypeRef(f.type) })) };
+    } else if (t.kind === 'ENUM') {
+      types[t.name] = { kind: 'ENUM', enumValues: (t.enumValues || []).map((v: any) => v.name) };
+    } else if (t.kind === 'SCALAR') {
+      types[t.name] = { kind: 'SCALAR' };
+    }
+  });
+  return types;
+};
+
+const SCALAR_SAMPLES: Record<string, any> = { Int: 0, Float: 0, Boolean: false, String: '', ID: '' };
+
+// Simple default values become the template value; lists and objects fall back to the type's sample
+const parseDefaultValue = (text: string): any => {
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (/^-?\d/.test(text)) return Number(text);
+  if (text.startsWith('"') && !text.startsWith('"""')) {
+    try { return JSON.parse(text); } catch { return undefined; }
+  }
+  if (/^[_A-Za-z]\w*$/.test(text) && text !== 'null') return text;
+  return undefined;
+};
+
+// Sample value for a type; input objects are expanded field by field when their definition is known
+const sampleValue = (type: GraphQLTypeRef, inputTypes: Record<string, GraphQLInputType>, seen: string[]): any => {
+  if (type.kind === 'NON_NULL') return sampleValue(type.ofType!, inputTypes, seen);
+  if (type.kind === 'LIST') return [sampleValue(type.ofType!, inputTypes, seen)];
+
+  const name = type.name || '';
+  if (name in SCALAR_SAMPLES) return SCALAR_SAMPLES[name];
+  const definition = inputTypes[name];
+  if (!definition) return /Input$/.test(name) ? {} : '';
+  if (definition.kind === 'ENUM') return definition.enumValues?.[0] ?? '';
+  if (definition.kind === 'SCALAR') return '';
+  // Recursive input types stop at the first repetition
+  if (seen.includes(name)) return {};
+  const result: Record<string, any> = {};
+  (definition.fields || []).forEach(field => {
+    result[field.name] = sampleValue(field.type, inputTypes, [...seen, name]);
+  });
+  return result;
+};
+
+export const buildVariablesTemplate = (variables: GraphQLVariable[], inputTypes: Record<string, GraphQLInputType> = {}): Record<string, any> => {
+  const template: Record<string, any> = {};
+  variables.forEach(v => {
+    const fallback = v.defaultValue !== undefined ? parseDefaultValue(v.defaultValue) : undefined;
+    template[v.name] = fallback !== undefined ? fallback : sampleValue(v.type, inputTypes, []);
+  });
+  return template;
+};
+
+// Keeps values already in the template wherever the derived shape still matches.
+// An empty derived object is an input type without a known definition, so its existing content stays.
+const mergeTemplate = (derived: any, previous: any): any => {
+  if (isPlainObject(derived) && isPlainObject(previous)) {
+    if (Object.keys(derived).length === 0) return previous;
+    const result: Record<string, any> = {};
+    Object.keys(derived).forEach(key => {
+      result[key] = key in previous ? mergeTemplate(derived[key], previous[key]) : derived[key];
+    });
+    return result;
+  }
+  if (Array.isArray(derived) && Array.isArray(previous)) {
+    return derived.length > 0 && previous.length > 0 ? [mergeTemplate(derived[0], previous[0])] : derived;
+  }
+  if (!isPlainObject(derived) && !Array.isArray(derived) && typeof derived === typeof previous) return previous;
+  return derived;
+};
+
+/**
+ * Derives the variables template (and so the mapping paths) from the
+ * operation's variable definitions. Throws when the document cannot be used.
+ */
+export const deriveVariablesTemplate = (graphql: GraphQLConfig, previous: Record<string, any> = {}): Record<string, any> => {
+  const operation = selectOperation(parseOperations(graphql.query), graphql.operationName);
+  return mergeTemplate(buildVariablesTemplate(operation.variables, graphql.inputTypes), previous);
+};
+
+// The JSON body a GraphQL server expects
+export const buildGraphQLBody = (graphql: GraphQLConfig, variables: Record<string, any>): Record<string, any> => ({
+  query: graphql.query,
+  ...(graphql.operationName && { operationName: graphql.operationName }),
+  variables,
+});
+
+const GRAPHQL_BODY_KEYS = ['query', 'variables', 'operationName', 'extensions'];
+
+/**
+ * Recognises a hand-wrapped GraphQL request body ({ query, variables }) and
+ * splits it into the GraphQL settings and the variables template.
+ */
+export const extractGraphQLBody = (body: Record<string, any>): { graphql: GraphQLConfig, variables: Record<string, any> } | null => {
+  if (typeof body.query !== 'string' || Object.keys(body).some(key => !GRAPHQL_BODY_KEYS.includes(key))) return null;
+  const graphql: GraphQLConfig = { query: body.query };
+  if (typeof body.operationName === 'string' && body.operationName) graphql.operationName = body.operationName;
+  try {
+    const derived = deriveVariablesTemplate(graphql);
+    return { graphql, variables: isPlainObject(body.variables) ? mergeTemplate(derived, body.variables) : derived };
+  } catch {
+    return null;
+  }
+};
+
+// GraphQL reports resolver errors in an "errors" array, usually with status 200
+export const getGraphQLErrors = (responseText: string): string[] => {
+  try {
+    const json = JSON.parse(responseText);
+    if (json && Array.isArray(json.errors) && json.errors.length > 0) {
+      return json.errors.map((e: any) => typeof e?.message === 'string' ? e.message : JSON.stringify(e));
+    }
+  } catch {
+    // Not JSON, so not a GraphQL error response
+  }
+  return [];
+};
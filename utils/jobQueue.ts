@@ -0,0 +1,58 @@
+export interface PoolOptions {
+  concurrency: number; // Workers pulling from the shared queue
+  delay: number;       // Pause in ms a worker takes after each request
+  signal: AbortSignal; // Stops the workers from taking new items
+}
+
+// Resolves after ms, or straight away when the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise(resolve => {
+  if (signal?.aborted) return resolve();
+  const onAbort = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const isAbortError = (err: any): boolean => err?.name === 'AbortError';
+
+// What a task did with its item: sent a request, sent nothing (no pause needed) or wants it queued again
+export type TaskOutcome = 'sent' | 'skipped' | 'requeue';
+
+/**
+ * Processes items with up to `concurrency` tasks in flight. Workers take the
+ * next item from a shared queue as soon as they are free, so slow requests
+ * don't hold up the rest. Requeued items go to the back of the queue.
+ * Resolves once the queue is drained or the signal aborts and the tasks in
+ * flight have settled.
+ */
+export const runPool = async <T>(items: T[], task: (item: T) => Promise<TaskOutcome>, options: PoolOptions): Promise<void> => {
+  const { signal } = options;
+  const queue = [...items];
+  let next = 0;
+
+  const runWorker = async () => {
+    while (next < queue.length && !signal.aborted) {
+      const item = queue[next++];
+      let outcome: TaskOutcome;
+      try {
+        outcome = await task(item);
+      } catch (err: any) {
+        if (isAbortError(err) || signal.aborted) return;
+        throw err;
+      }
+      if (outcome === 'requeue') {
+        queue.push(item);
+        continue;
+      }
+      if (outcome === 'sent' && options.delay > 0 && next < queue.length) await sleep(options.delay, signal);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(options.concurrency) || 1, queue.length));
+  await Promise.all(Array.from({ length: workers }, runWorker));
+};
@@ -0,0 +1,95 @@
+import { JobLog } from "../types";
+import { collectHeaders, downloadRows, downloadText, ExportFormat } from "./dataExport";
+
+export type ResultFormat = ExportFormat | 'json';
+
+export const RESULT_FORMAT_LABELS: Record<ResultFormat, string> = {
+  xlsx: 'XLSX',
+  csv: 'CSV',
+  json: 'JSON',
+};
+
+// Outcome columns after the row's own columns; the prefix keeps them apart when the file is imported again
+const RESULT_COLUMNS = [
+  'result_status',
+  'result_http_status',
+  'result_message',
+  'result_response_body',
+  'result_attempts',
+  'result_first_sent_at',
+  'result_last_sent_at',
+  'result_latency_ms',
+];
+
+// Excel rejects longer cell text
+const XLSX_CELL_LIMIT = 32767;
+
+const toIso = (date?: Date): string => date ? new Date(date).toISOString() : '';
+
+// Rows that were never sent have no attempts; their timestamp is when they were last changed
+const summarizeAttempts = (log: JobLog) => {
+  const attempts = log.attempts || [];
+  const last = attempts[attempts.length - 1];
+  return {
+    count: attempts.length,
+    firstSentAt: attempts[0]?.timestamp,
+    lastSentAt: last?.timestamp,
+    latencyMs: last?.latencyMs,
+    // As the API returned it; the log's response may be a summary or carry the reason the row failed
+    responseBody: last && last.statusCode ? last.responseBody ?? last.response : undefined,
+  };
+};
+
+const limitCell = (text: string, cellLimit: number): string =>
+  text.length > cellLimit ? `${text.slice(0, cellLimit - 15)}... (truncated)` : text;
+
+export const selectResultLogs = (logs: JobLog[], failedOnly: boolean): JobLog[] =>
+  failedOnly ? logs.filter(log => log.status === 'error') : logs;
+
+/**
+ * One flat record per row: the row's columns, including those response
+ * extractors filled, followed by its outcome. Failed-only exports can be
+ * fixed and imported again as they are.
+ */
+export const toResultRecord = (log: JobLog, cellLimit = Infinity): Record<string, string | number> => {
+  const summary = summarizeAttempts(log);
+  return {
+    ...log.data,
+    result_status: log.status,
+    result_http_status: log.statusCode ?? '',
+    result_message: limitCell(log.response || '', cellLimit),
+    result_response_body: limitCell(summary.responseBody ?? '', cellLimit),
+    result_attempts: summary.count,
+    result_first_sent_at: toIso(summary.firstSentAt),
+    result_last_sent_at: toIso(summary.lastSentAt),
+    result_latency_ms: summary.latencyMs ?? '',
+  };
+};
+
+export const resultsToJson = (logs: JobLog[]): string => JSON.stringify(logs.map(log => {
+  const summary = summarizeAttempts(log);
+  return {
+    row: log.id + 1,
+    data: log.data,
+    status: log.status,
+    statusCode: log.statusCode ?? null,
+    message: log.response ?? null,
+    responseBody: summary.responseBody ?? null,
+    extracted: log.extracted || {},
+    attempts: summary.count,
+    firstSentAt: toIso(summary.firstSentAt) || null,
+    lastSentAt: toIso(summary.lastSentAt) || null,
+    latencyMs: summary.latencyMs ?? null,
+  };
+}), null, 2);
+
+export const downloadResults = (logs: JobLog[], format: ResultFormat, baseName: string) => {
+  if (format === 'json') {
+    downloadText(resultsToJson(logs), `${baseName}.json`, 'application/json');
+    return;
+  }
+  const cellLimit = format === 'xlsx' ? XLSX_CELL_LIMIT : Infinity;
+  // Result columns of an earlier export that was imported again are replaced, not repeated
+  const headers = [...collectHeaders(logs.map(log => log.data)).filter(h => !RESULT_COLUMNS.includes(h)), ...RESULT_COLUMNS];
+  downloadRows(logs.map(log => toResultRecord(log, cellLimit)), headers, format, baseName);
+};
@@ -0,0 +1,101 @@
+import { JobLog, RequestStep } from "../types";
+
+// The setup a job runs with. Its rows, with their data and progress, are stored one record per row.
+export interface SavedProject {
+  steps: RequestStep[];
+  files: File[];
+  savedAt: Date;
+}
+
+export interface SavedJob {
+  project: SavedProject;
+  logs: JobLog[]; // In row order
+}
+
+const DB_NAME = 'autoapi-pusher';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'project';
+const ROW_STORE = 'rows';
+const PROJECT_KEY = 'current';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(PROJECT_STORE);
+        request.result.createObjectStore(ROW_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open (e.g. storage disabled) is retried on the next call
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Runs `work` in one transaction and resolves once it has committed
+const transact = async <T>(stores: string[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => IDBRequest<T> | void): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = work(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/*
+ * Persistence is best effort: the app keeps working without it, so failures
+ * are logged and otherwise ignored.
+ */
+const ignoreFailure = (action: string) => (err: any) => {
+  console.warn(`Could not ${action}:`, err);
+};
+
+// Replaces the saved job, including the rows of an earlier one
+export const saveJob = (project: SavedProject, logs: JobLog[]): Promise<void> =>
+  transact([PROJECT_STORE, ROW_STORE], 'readwrite', tx => {
+    tx.objectStore(PROJECT_STORE).put(project, PROJECT_KEY);
+    const rows = tx.objectStore(ROW_STORE);
+    rows.clear();
+    logs.forEach(log => rows.put(log));
+  }).then(() => undefined, ignoreFailure('save the job'));
+
+export const saveRowLogs = (logs: JobLog[]): Promise<void> =>
+  transact([ROW_STORE], 'readwrite', tx => {
+    const rows = tx.objectStore(ROW_STORE);
+    logs.forEach(log => rows.put(log));
+  }).then(() => undefined, ignoreFailure('save the job progress'));
+
+export const loadSavedJob = async (): Promise<SavedJob | null> => {
+  try {
+    const project = await transact<SavedProject>([PROJECT_STORE], 'readonly', tx => tx.objectStore(PROJECT_STORE).get(PROJECT_KEY));
+    if (!project) return null;
+    const logs = await transact<JobLog[]>([ROW_STORE], 'readonly', tx => tx.objectStore(ROW_STORE).getAll());
+    return { project, logs: (logs || []).sort((a, b) => a.id - b.id) };
+  } catch (err) {
+    ignoreFailure('load the saved job')(err);
+    return null;
+  }
+};
+
+export const clearSavedJob = (): Promise<void> =>
+  transact([PROJECT_STORE, ROW_STORE], 'readwrite', tx => {
+    tx.objectStore(PROJECT_STORE).clear();
+    tx.objectStore(ROW_STORE).clear();
+  }).then(() => undefined, ignoreFailure('clear the saved job'));
+
+/**
+ * A job is unfinished when at least one request went out (or was retried)
+ * and some rows haven't succeeded. Rows in flight when the page closed were
+ * not saved as sent and will be sent again.
+ */
+export const isUnfinishedJob = (job: SavedJob): boolean =>
+  job.logs.length > 0 &&
+  job.logs.some(log => log.status !== 'pending' || (log.attempts?.length ?? 0) > 0) &&
+  job.logs.some(log => log.status !== 'success');
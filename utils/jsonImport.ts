@@ -0,0 +1,121 @@
+import { CsvRow } from "../types";
+import { CsvIssue } from "./csvParser";
+import { NULL_CELL_TOKEN } from "./dataUtils";
+
+export interface JsonImportResult {
+  headers: string[];
+  data: CsvRow[];
+  format: 'json' | 'ndjson';
+  issues: CsvIssue[];
+}
+
+const isPlainObject = (value: any): boolean =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Flattens a record into dot-notation columns: { a: { b: 1 } } -> { "a.b": "1" }.
+ * Arrays of primitives are joined with ", " so the default split transform
+ * can turn them back into arrays; other arrays are kept as JSON. A null
+ * becomes the null cell token so it is sent back as null.
+ */
+export const flattenRecord = (value: any, prefix = '', out: CsvRow = {}): CsvRow => {
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value);
+    if (keys.length === 0 && prefix) out[prefix] = '{}';
+    keys.forEach(key => flattenRecord(value[key], prefix ? `${prefix}.${key}` : key, out));
+    return out;
+  }
+
+  const column = prefix || 'value';
+  if (Array.isArray(value)) {
+    const allPrimitive = value.every(v => v === null || typeof v !== 'object');
+    out[column] = allPrimitive ? value.map(v => v ?? '').join(', ') : JSON.stringify(value);
+  } else if (value === null) {
+    out[column] = NULL_CELL_TOKEN;
+  } else if (value === undefined) {
+    out[column] = '';
+  } else {
+    out[column] = String(value);
+  }
+  return out;
+};
+
+// Builds rows with the union of all columns, in the order they first appear
+export const recordsToRows = (records: any[]): { headers: string[], data: CsvRow[] } => {
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  const flat = records.map(record => {
+    const row = flattenRecord(record);
+    Object.keys(row).forEach(key => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    });
+    return row;
+  });
+
+  const data = flat.map(row => {
+    const full: CsvRow = {};
+    headers.forEach(h => full[h] = row[h] ?? '');
+    return full;
+  });
+  return { headers, data };
+};
+
+// Finds the records in a parsed document: a top-level array, or the first array of objects inside a wrapper like { data: [...] }
+const findRecords = (doc: any, depth = 0): any[] | null => {
+  if (Array.isArray(doc)) return doc;
+  if (!isPlainObject(doc) || depth > 2) return null;
+  for (const key of Object.keys(doc)) {
+    const value = doc[key];
+    if (Array.isArray(value) && value.length > 0 && value.every(isPlainObject)) return value;
+  }
+  for (const key of Object.keys(doc)) {
+    const nested = isPlainObject(doc[key]) ? findRecords(doc[key], depth + 1) : null;
+    if (nested) return nested;
+  }
+  return null;
+};
+
+export const parseNdjson = (text: string): { records: any[], issues: CsvIssue[] } => {
+  const records: any[] = [];
+  const issues: CsvIssue[] = [];
+  text.split(/\r?\n/).forEach((line, idx) => {
+    if (!line.trim()) return;
+    try {
+      records.push(JSON.parse(line));
+    } catch (e: any) {
+      issues.push({ line: idx + 1, message: `Invalid JSON: ${e.message}` });
+    }
+  });
+  return { records, issues };
+};
+
+const looksLikeNdjson = (text: string): boolean => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim());
+  return lines.length > 1 && lines.every(l => /^\s*[{[]/.test(l));
+};
+
+export const parseJsonData = (text: string, fileName = ''): JsonImportResult => {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (!trimmed) return { headers: [], data: [], format: 'json', issues: [] };
+
+  const forceNdjson = /\.(ndjson|jsonl)$/i.test(fileName);
+  if (!forceNdjson) {
+    try {
+      const doc = JSON.parse(trimmed);
+      const records = findRecords(doc) || [doc];
+      return { ...recordsToRows(records), format: 'json', issues: [] };
+    } catch (e: any) {
+      if (!looksLikeNdjson(trimmed)) throw new Error(`Invalid JSON: ${e.message}`);
+    }
+  }
+
+  const { records, issues } = parseNdjson(trimmed);
+  return { ...recordsToRows(records), format: 'ndjson', issues };
+};
+
+export const isJsonFile = (fileName: string): boolean => /\.(json|ndjson|jsonl)$/i.test(fileName);
+
+export const looksLikeJson = (text: string): boolean => /^\s*[{[]/.test(text.replace(/^\uFEFF/, ''));
@@ -0,0 +1,142 @@
+import { sleep } from "./jobQueue";
+
+export type RateInterval = 'second' | 'minute';
+
+export interface RateLimit {
+  requests: number;       // Requests allowed per interval
+  interval: RateInterval;
+  burst: number;          // Requests that may go out back to back after a quiet spell
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimit = { requests: 5, interval: 'second', burst: 1 };
+
+// Statuses that mean "slow down": the row is queued again after the pause
+export const THROTTLE_STATUSES = [429, 503];
+
+// Pause after a throttled response that doesn't say how long to wait
+export const DEFAULT_THROTTLE_PAUSE = 5000;
+
+// Longer waits are capped so a bogus header can't stall the job for hours
+const MAX_PAUSE = 15 * 60 * 1000;
+
+// The current rate is measured over this window
+const RATE_WINDOW = 10000;
+
+const INTERVAL_MS: Record<RateInterval, number> = { second: 1000, minute: 60000 };
+
+export interface RateLimiter {
+  acquire: (signal: AbortSignal) => Promise<void>; // Waits for a free slot; rejects with an AbortError when stopped
+  pauseFor: (ms: number) => void;                  // Holds back every worker
+  getPausedUntil: () => number;
+  getCurrentRate: () => number;                    // Requests per second actually sent recently
+}
+
+/**
+ * Token bucket shared by all workers of a job. The bucket holds up to
+ * `burst` tokens and refills at the configured rate; without a limit it only
+ * enforces pauses requested by the server.
+ */
+export const createRateLimiter = (limit: RateLimit | null): RateLimiter => {
+  const perMs = limit ? Math.max(1, limit.requests) / INTERVAL_MS[limit.interval] : Infinity;
+  const capacity = limit ? Math.max(1, Math.floor(limit.burst)) : Infinity;
+  const startedAt = Date.now();
+  let tokens = capacity;
+  let refilledAt = startedAt;
+  let pausedUntil = 0;
+  let sent: number[] = [];
+
+  const refill = (now: number) => {
+    if (!limit) return;
+    tokens = Math.min(capacity, tokens + (now - refilledAt) * perMs);
+    refilledAt = now;
+  };
+
+  const acquire = async (signal: AbortSignal) => {
+    while (true) {
+      if (signal.aborted) throw new DOMException('The job was stopped.', 'AbortError');
+      const now = Date.now();
+      if (now < pausedUntil) {
+        await sleep(pausedUntil - now, signal);
+        continue;
+      }
+      refill(now);
+      if (tokens >= 1) {
+        tokens -= 1;
+        sent.push(now);
+        return;
+      }
+      await sleep(Math.ceil((1 - tokens) / perMs), signal);
+    }
+  };
+
+  const pauseFor = (ms: number) => {
+    const until = Date.now() + Math.min(Math.max(0, ms), MAX_PAUSE);
+    if (until <= pausedUntil) return;
+    pausedUntil = until;
+    // Resume with a single request instead of a burst
+    if (limit) {
+      tokens = 0;
+      refilledAt = until - 1 / perMs;
+    }
+  };
+
+  const getCurrentRate = () => {
+    const now = Date.now();
+    sent = sent.filter(time => time > now - RATE_WINDOW);
+    const span = Math.max(1000, now - Math.max(startedAt, now - RATE_WINDOW));
+    return sent.length * 1000 / span;
+  };
+
+  return { acquire, pauseFor, getPausedUntil: () => pausedUntil, getCurrentRate };
+};
+
+// Highest rate the settings allow, in requests per second; latency makes the real rate lower
+export const getMaxRate = (limit: RateLimit | null, concurrency: number, delay: number): number => {
+  const byDelay = delay > 0 ? concurrency * 1000 / delay : Infinity;
+  const byLimit = limit ? Math.max(1, limit.requests) * 1000 / INTERVAL_MS[limit.interval] : Infinity;
+  return Math.min(byDelay, byLimit);
+};
+
+export const formatRate = (perSecond: number): string => {
+  if (!isFinite(perSecond)) return 'unlimited';
+  return perSecond >= 1 || perSecond === 0 ? `${perSecond.toFixed(1)}/s` : `${(perSecond * 60).toFixed(1)}/min`;
+};
+
+const getHeader = (headers: Headers, names: string[]): string | null => {
+  for (const name of names) {
+    const value = headers.get(name);
+    if (value !== null && value.trim() !== '') return value.trim();
+  }
+  return null;
+};
+
+/**
+ * How long the server asks us to wait, in ms: Retry-After (seconds or an
+ * HTTP date), else the X-RateLimit-Reset family (seconds left or a Unix
+ * timestamp). Null when the headers don't say.
+ */
+export const getRetryDelay = (headers: Headers, now = Date.now()): number | null => {
+  const retryAfter = getHeader(headers, ['Retry-After']);
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - now);
+  }
+  const reset = getHeader(headers, ['X-RateLimit-Reset', 'RateLimit-Reset', 'X-Rate-Limit-Reset']);
+  if (reset) {
+    const value = Number(reset);
+    if (!isNaN(value)) {
+      if (value > 1e12) return Math.max(0, value - now);        // Unix ms
+      if (value > 1e9) return Math.max(0, value * 1000 - now);  // Unix seconds
+      return Math.max(0, value * 1000);
+    }
+  }
+  return null;
+};
+
+// True when the response says the budget is used up, so the next request would be throttled
+export const isRateLimitExhausted = (headers: Headers): boolean => {
+  const remaining = getHeader(headers, ['X-RateLimit-Remaining', 'RateLimit-Remaining', 'X-Rate-Limit-Remaining']);
+  return remaining !== null && Number(remaining) <= 0;
+};
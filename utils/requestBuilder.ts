@@ -0,0 +1,255 @@
+import { ApiConfig, BodyEncoding, CsvRow, FieldDiagnostic, Mapping, QueryOptions } from "../types";
+import { constructPayload, formatDiagnostic, isBodyMapping, resolveMappingValues } from "./dataUtils";
+import { FileIndex } from "./fileAttachments";
+
+export interface BuiltRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  payload: any;                     // Mapped body fields, before serialization
+  hasBody: boolean;                 // False for GET/HEAD (and DELETE by default); the payload then goes into the query string
+  encoding: BodyEncoding;
+  paramValues: Record<string, any>; // Resolved path/query/header mapping values, by mapping id
+  diagnostics: FieldDiagnostic[];
+  issues: string[];                 // Problems with the URL or headers that stop the row from being sent
+  failed: boolean;
+}
+
+export const DEFAULT_QUERY_OPTIONS: QueryOptions = { arrayStyle: 'repeat', objectStyle: 'dot' };
+
+// Multipart has no entry: the browser sets the header with the part boundary
+export const BODY_CONTENT_TYPES: Record<BodyEncoding, string | null> = {
+  json: 'application/json',
+  form: 'application/x-www-form-urlencoded',
+  multipart: null,
+  xml: 'application/xml',
+};
+
+const BODYLESS_METHODS = ['GET', 'HEAD'];
+
+export const methodSendsBody = (config: Pick<ApiConfig, 'method' | 'sendBodyWithDelete'>): boolean => {
+  const method = config.method.toUpperCase();
+  if (BODYLESS_METHODS.includes(method)) return false;
+  if (method === 'DELETE') return !!config.sendBodyWithDelete;
+  return true;
+};
+
+const PLACEHOLDER_PATTERN = /\{([A-Za-z_][\w.-]*)\}/g;
+
+// Names of the {placeholder} segments in a URL, in order of appearance
+export const getUrlPlaceholders = (url: string): string[] => {
+  const names: string[] = [];
+  for (const match of url.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+};
+
+// Replaces placeholders with a stand-in so the URL can be checked with new URL()
+export const fillPlaceholdersForValidation = (url: string): string => url.replace(PLACEHOLDER_PATTERN, 'x');
+
+/**
+ * Adds a path mapping for every URL placeholder that doesn't have one yet and
+ * drops path mappings whose placeholder is gone.
+ */
+export const syncPathMappings = (mappings: Mapping[], url: string): Mapping[] => {
+  const placeholders = getUrlPlaceholders(url);
+  const kept = mappings.filter(m => m.target !== 'path' || placeholders.includes(m.jsonPath.trim()));
+  const existing = new Set(kept.filter(m => m.target === 'path').map(m => m.jsonPath.trim()));
+  const added: Mapping[] = placeholders
+    .filter(name => !existing.has(name))
+    .map((name, idx) => ({
+      id: `path-${idx}-${Date.now()}`,
+      jsonPath: name,
+      dataType: 'string',
+      target: 'path',
+      csvHeader: '',
+      defaultValue: ''
+    }));
+  if (added.length === 0 && kept.length === mappings.length) return mappings;
+  return [...added, ...kept];
+};
+
+// Text form of a mapped value for a URL, header or form field
+export const toParamText = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Blob) return (value as File).name ?? '';
+  if (Array.isArray(value)) return value.map(toParamText).join(',');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const safeDecode = (text: string): string => {
+  try {
+    return decodeURIComponent(text.replace(/\+/g, ' '));
+  } catch {
+    return text;
+  }
+};
+
+export const isPlainObject = (value: any): boolean =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Blob);
+
+/**
+ * Flattens a value into key/value fields. Nested keys use dot or bracket
+ * notation; arrays of primitives follow the array style and arrays of
+ * objects are indexed (items[0].sku or items[0][sku]). Leaf values are kept
+ * as they are, so attached files survive for multipart bodies.
+ */
+export const flattenFields = (value: Record<string, any>, options: QueryOptions = DEFAULT_QUERY_OPTIONS): [string, any][] => {
+  const pairs: [string, any][] = [];
+  const childKey = (prefix: string, key: string) => options.objectStyle === 'bracket' ? `${prefix}[${key}]` : `${prefix}.${key}`;
+
+  const walk = (key: string, node: any) => {
+    if (Array.isArray(node)) {
+      if (node.some(item => item !== null && typeof item === 'object')) {
+        node.forEach((item, idx) => walk(`${key}[${idx}]`, item));
+      } else if (options.arrayStyle === 'comma') {
+        if (node.length > 0) pairs.push([key, node.map(toParamText).join(',')]);
+      } else {
+        const itemKey = options.arrayStyle === 'bracket' ? `${key}[]` : key;
+        node.forEach(item => pairs.push([itemKey, item]));
+      }
+    } else if (isPlainObject(node)) {
+      Object.keys(node).forEach(child => walk(childKey(key, child), node[child]));
+    } else {
+      pairs.push([key, node]);
+    }
+  };
+
+  Object.keys(value || {}).forEach(key => walk(key, value[key]));
+  return pairs;
+};
+
+// Query string pairs for a value, flattened with flattenFields
+export const serializeQuery = (value: Record<string, any>, options: QueryOptions = DEFAULT_QUERY_OPTIONS): [string, string][] =>
+  flattenFields(value, options).map(([key, item]) => [key, toParamText(item)]);
+
+// Sets query parameters on a URL, replacing static parameters with the same key
+export const applyQueryParams = (url: string, params: [string, string][]): string => {
+  if (params.length === 0) return url;
+  const hashIndex = url.indexOf('#');
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+  const withoutHash = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const queryIndex = withoutHash.indexOf('?');
+  const base = queryIndex === -1 ? withoutHash : withoutHash.slice(0, queryIndex);
+  const existing = queryIndex === -1 ? [] : withoutHash.slice(queryIndex + 1).split('&').filter(Boolean);
+
+  const keys = new Set(params.map(([key]) => key));
+  const kept = existing.filter(pair => !keys.has(safeDecode(pair.split('=')[0])));
+  const added = params.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`);
+  return `${base}?${[...kept, ...added].join('&')}${hash}`;
+};
+
+/**
+ * Builds the request for one row: body mappings go through constructPayload,
+ * path mappings fill the URL placeholders, query mappings are appended to the
+ * query string and header mappings override the configured headers. Methods
+ * without a body send the body fields as query parameters instead.
+ */
+export const buildRequest = (config: ApiConfig, row: CsvRow, mappings: Mapping[], files?: FileIndex): BuiltRequest => {
+  const built = constructPayload(row, mappings, files);
+  const paramMappings = mappings.filter(m => !isBodyMapping(m));
+  const { values, diagnostics: paramDiagnostics } = resolveMappingValues(row, paramMappings, files);
+  const diagnostics = [...built.diagnostics, ...paramDiagnostics];
+  const issues: string[] = [];
+
+  const pathValues = new Map<string, any>();
+  paramMappings
+    .filter(m => m.target === 'path' && m.id in values)
+    .forEach(m => pathValues.set(m.jsonPath.trim(), values[m.id]));
+
+  let url = config.url.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const text = toParamText(pathValues.get(name));
+    if (text === '') {
+      issues.push(`URL placeholder {${name}} has no value`);
+      return match;
+    }
+    return encodeURIComponent(text);
+  });
+
+  const hasBody = methodSendsBody(config);
+  const queryOptions = config.query || DEFAULT_QUERY_OPTIONS;
+  // Without a body, the mapped body fields travel in the query string; GraphQL sends its variables as one JSON parameter
+  const query: [string, string][] = hasBody ? [] : config.graphql
+    ? [
+        ['query', config.graphql.query],
+        ...(config.graphql.operationName ? [['operationName', config.graphql.operationName] as [string, string]] : []),
+        ['variables', JSON.stringify(built.payload)],
+      ]
+    : serializeQuery(built.payload, queryOptions);
+  paramMappings
+    .filter(m => m.target === 'query' && m.id in values)
+    .forEach(m => query.push(...serializeQuery({ [m.jsonPath.trim()]: values[m.id] }, queryOptions)));
+  url = applyQueryParams(url, query);
+
+  const headers: Record<string, string> = { ...config.headers };
+  const setHeader = (name: string, value: string) => {
+    Object.keys(headers).forEach(key => {
+      if (key.toLowerCase() === name.toLowerCase()) delete headers[key];
+    });
+    headers[name] = value;
+  };
+  paramMappings
+    .filter(m => m.target === 'header' && m.id in values && values[m.id] !== null)
+    .forEach(m => {
+      const name = m.jsonPath.trim();
+      const value = values[m.id];
+      const text = Array.isArray(value) ? value.map(toParamText).join(', ') : toParamText(value);
+      if (/[\r\n]/.test(text)) {
+        issues.push(`Header "${name}" contains a line break`);
+        return;
+      }
+      setHeader(name, text);
+    });
+  const encoding = config.graphql ? 'json' : config.bodyEncoding || 'json';
+  const contentTypeKey = Object.keys(headers).find(key => key.toLowerCase() === 'content-type');
+  if (hasBody && encoding === 'multipart') {
+    // A fixed multipart Content-Type would lack the boundary of the generated body
+    if (contentTypeKey) delete headers[contentTypeKey];
+  } else if (hasBody && !contentTypeKey) {
+    headers['Content-Type'] = BODY_CONTENT_TYPES[encoding]!;
+  }
+
+  return {
+    method: config.method,
+    url,
+    headers,
+    payload: built.payload,
+    hasBody,
+    encoding,
+    paramValues: values,
+    diagnostics,
+    issues,
+    failed: built.failed || paramDiagnostics.some(d => d.policy === 'fail_row') || issues.length > 0,
+  };
+};
+
+// Why a failed request is not sent, for logs and previews
+export const describeRequestFailure = (request: BuiltRequest): string => [
+  ...request.diagnostics.filter(d => d.policy === 'fail_row').map(formatDiagnostic),
+  ...request.issues,
+].join('; ');
+
+const SECRET_HEADER_PATTERN = /authorization|cookie|token|secret|password|api[-_]?key|signature|session/i;
+const AUTH_SCHEME_PATTERN = /^(Bearer|Basic|Token|Digest|ApiKey)\s+/i;
+
+/**
+ * Copy of the headers with the values of credential headers replaced, for
+ * storing and showing sent requests. The auth scheme and the last four
+ * characters of longer values stay visible so keys can be told apart.
+ */
+export const maskSecretHeaders = (headers: Record<string, string>): Record<string, string> => {
+  const masked: Record<string, string> = {};
+  Object.keys(headers).forEach(key => {
+    const value = headers[key];
+    if (!SECRET_HEADER_PATTERN.test(key)) {
+      masked[key] = value;
+      return;
+    }
+    const scheme = value.match(AUTH_SCHEME_PATTERN)?.[0] || '';
+    const secret = value.slice(scheme.length);
+    masked[key] = `${scheme}••••${secret.length >= 16 ? secret.slice(-4) : ''}`;
+  });
+  return masked;
+};
@@ -0,0 +1,41 @@
+import { ApiConfig, RequestStep } from "../types";
+
+// e.g. "POST customers" for POST https://api.example.com/v1/customers
+export const suggestStepName = (config: ApiConfig): string => {
+  let path = config.url;
+  try {
+    path = new URL(config.url.replace(/[{}]/g, '')).pathname;
+  } catch { /* use the raw URL */ }
+  const segment = path.split('/').filter(Boolean).filter(part => !/^v\d+$/i.test(part)).pop() || '';
+  return `${config.method.toUpperCase()} ${segment}`.trim();
+};
+
+export const createRequestStep = (config: ApiConfig): RequestStep => ({
+  id: `step-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+  name: suggestStepName(config),
+  config,
+  mappings: [],
+});
+
+// A new step starts on the same host with the same headers (usually auth) and an empty body
+export const createFollowUpStep = (previous: ApiConfig): RequestStep => createRequestStep({
+  method: 'POST',
+  url: previous.url,
+  headers: { ...previous.headers },
+  bodyTemplate: {},
+});
+
+export const formatStepLabel = (steps: RequestStep[], index: number): string =>
+  `Step ${index + 1}${steps[index]?.name ? ` (${steps[index].name})` : ''}`;
+
+// Columns written by the extractors of the steps before `index`, which that step can map
+export const getChainedColumns = (steps: RequestStep[], index: number): { column: string, stepIndex: number }[] => {
+  const columns = new Map<string, number>();
+  steps.slice(0, index).forEach((step, stepIndex) => {
+    (step.config.extractors || []).forEach(extractor => {
+      const column = extractor.column.trim();
+      if (column && !columns.has(column)) columns.set(column, stepIndex);
+    });
+  });
+  return Array.from(columns.entries()).map(([column, stepIndex]) => ({ column, stepIndex }));
+};
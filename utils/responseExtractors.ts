@@ -0,0 +1,56 @@
+import { ExtractorKind, ResponseExtractor } from "../types";
+import { getResponseValue, parseResponsePath } from "./successRules";
+
+export const EXTRACTOR_KIND_LABELS: Record<ExtractorKind, string> = {
+  json_path: 'JSON path',
+  regex: 'Regex',
+};
+
+// Why an extractor can't run, for the config editor
+export const getExtractorProblem = (extractor: ResponseExtractor): string | null => {
+  if (!extractor.column.trim()) return 'the column name is empty.';
+  if (!extractor.expression.trim()) return 'the expression is empty.';
+  if (extractor.kind === 'json_path') {
+    return parseResponsePath(extractor.expression) ? null : `"${extractor.expression}" is not a valid path.`;
+  }
+  try {
+    new RegExp(extractor.expression);
+    return null;
+  } catch (e: any) {
+    return e.message;
+  }
+};
+
+// Objects and arrays are written as JSON so the cell can be mapped again with an object type
+const toCellText = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Runs the extractors over a response body. Only values that were found are
+ * returned, so a response without them leaves earlier values in place.
+ */
+export const extractResponseFields = (extractors: ResponseExtractor[] | undefined, text: string): Record<string, string> => {
+  const result: Record<string, string> = {};
+  let json: { parsed: boolean, value?: any } | null = null;
+  (extractors || []).filter(extractor => !getExtractorProblem(extractor)).forEach(extractor => {
+    const column = extractor.column.trim();
+    if (extractor.kind === 'regex') {
+      const match = new RegExp(extractor.expression).exec(text);
+      if (match) result[column] = match.length > 1 ? match[1] ?? '' : match[0];
+      return;
+    }
+    if (!json) {
+      try {
+        json = { parsed: true, value: JSON.parse(text) };
+      } catch {
+        json = { parsed: false };
+      }
+    }
+    if (!json.parsed) return;
+    const { found, value } = getResponseValue(json.value, parseResponsePath(extractor.expression)!);
+    if (found) result[column] = toCellText(value);
+  });
+  return result;
+};
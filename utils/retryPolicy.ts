@@ -0,0 +1,45 @@
+export interface RetryPolicy {
+  maxAttempts: number;         // Including the first request
+  statusCodes: string;         // Comma-separated codes and ranges, e.g. "408, 500-599"
+  retryNetworkErrors: boolean; // Requests that got no response at all (status 0)
+  baseDelay: number;           // Wait in ms before the first retry; doubles with every attempt
+  maxDelay: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  statusCodes: '408, 500, 502-504',
+  retryNetworkErrors: true,
+  baseDelay: 1000,
+  maxDelay: 30000,
+};
+
+// Inclusive [from, to] ranges; entries that aren't codes or ranges are ignored
+export const parseStatusCodes = (spec: string): [number, number][] =>
+  spec.split(/[\s,;]+/).flatMap((part): [number, number][] => {
+    const match = part.match(/^(\d{3})(?:-(\d{3}))?$/);
+    if (!match) return [];
+    const from = Number(match[1]);
+    const to = match[2] ? Number(match[2]) : from;
+    return [[Math.min(from, to), Math.max(from, to)]];
+  });
+
+// Entries of the status code list that can't be read, for the settings form
+export const getInvalidStatusCodes = (spec: string): string[] =>
+  spec.split(/[\s,;]+/).filter(part => part !== '' && !/^\d{3}(-\d{3})?$/.test(part));
+
+// Whether a failed attempt is worth another try. Rows that could not be built are never retried.
+export const isRetryable = (policy: RetryPolicy, status: number): boolean => {
+  if (status === 0) return policy.retryNetworkErrors;
+  return parseStatusCodes(policy.statusCodes).some(([from, to]) => status >= from && status <= to);
+};
+
+/**
+ * Wait before the retry that follows the given (1-based) attempt: the base
+ * delay doubled per attempt and capped at maxDelay, of which a random half is
+ * dropped so rows that failed together don't retry in lockstep.
+ */
+export const getBackoffDelay = (policy: RetryPolicy, attempt: number, random: () => number = Math.random): number => {
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, Math.max(0, attempt - 1)));
+  return Math.round(exponential / 2 + random() * exponential / 2);
+};
@@ -0,0 +1,466 @@
+import { ApiConfig, BodyEncoding } from "../types";
+import { cleanInternalKeys } from "./dataUtils";
+import { detectBodyEncoding, parseFormBody, toBase64 } from "./curlParser";
+
+export type SpecSource = 'postman' | 'har' | 'openapi';
+
+// A single request/operation found in an imported document
+export interface ImportCandidate {
+  id: string;
+  label: string;
+  group?: string; // Folder, tag or host the request belongs to
+  config: ApiConfig;
+}
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+
+// Headers the browser controls itself; fetch() refuses or ignores them
+const BROWSER_MANAGED_HEADERS = new Set([
+  'host', 'content-length', 'connection', 'accept-encoding', 'cookie', 'origin', 'referer',
+  'user-agent', 'te', 'trailer', 'transfer-encoding', 'upgrade', 'keep-alive', 'dnt',
+]);
+
+const isBrowserManagedHeader = (name: string) => {
+  const lower = name.toLowerCase();
+  return lower.startsWith(':') || lower.startsWith('sec-') || lower.startsWith('proxy-') || BROWSER_MANAGED_HEADERS.has(lower);
+};
+
+// Parses a body string into a template, falling back to an empty object for non-JSON content
+const bodyStringToTemplate = (text: string | undefined, mimeType = ''): Record<string, any> => {
+  if (!text || !text.trim()) return {};
+  const trimmed = text.trim();
+  if (mimeType.includes('x-www-form-urlencoded')) return parseFormBody(trimmed);
+  try {
+    const parsed = JSON.parse(trimmed);
+    return parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return /^[^=&\s{[]+=/.test(trimmed) ? parseFormBody(trimmed) : {};
+  }
+};
+
+/**
+ * The body encoding comes from the importer or else the Content-Type header.
+ * Multipart drops a fixed Content-Type, whose boundary wouldn't match the
+ * generated body.
+ */
+const finalizeConfig = (config: ApiConfig): ApiConfig => {
+  const headers = cleanInternalKeys(config.headers || {});
+  const contentTypeKey = Object.keys(headers).find(key => key.toLowerCase() === 'content-type');
+  const bodyEncoding = config.bodyEncoding || detectBodyEncoding(contentTypeKey ? headers[contentTypeKey] : '', '', false);
+  if (bodyEncoding === 'multipart' && contentTypeKey) delete headers[contentTypeKey];
+  return {
+    method: (config.method || 'GET').toUpperCase(),
+    url: config.url,
+    headers,
+    bodyTemplate: cleanInternalKeys(config.bodyTemplate || {}),
+    ...(bodyEncoding !== 'json' && { bodyEncoding }),
+  };
+};
+
+// --- Postman v2.1 ---
+
+const replacePostmanVariables = (text: string, variables: Record<string, string>): string =>
+  text.replace(/\{\{\s*([^{}\s]+)\s*\}\}/g, (match, name) => variables[name] !== undefined ? variables[name] : match);
+
+const postmanUrlToString = (url: any): string => {
+  if (!url) return '';
+  if (typeof url === 'string') return url;
+  if (url.raw) return url.raw;
+
+  const protocol = url.protocol ? `${url.protocol}://` : '';
+  const host = Array.isArray(url.host) ? url.host.join('.') : (url.host || '');
+  const path = Array.isArray(url.path) ? url.path.join('/') : (url.path || '');
+  const query = (url.query || [])
+    .filter((q: any) => !q.disabled)
+    .map((q: any) => `${q.key}=${q.value ?? ''}`)
+    .join('&');
+  return `${protocol}${host}${path ? `/${path}` : ''}${query ? `?${query}` : ''}`;
+};
+
+const postmanAuthHeaders = (auth: any): Record<string, string> => {
+  if (!auth || !auth.type) return {};
+  // v2.1 stores auth attributes as [{ key, value }]; v2.0 uses a plain object
+  const attrs = (name: string): any => {
+    const section = auth[auth.type];
+    if (Array.isArray(section)) return section.find((a: any) => a.key === name)?.value;
+    return section?.[name];
+  };
+
+  switch (auth.type) {
+    case 'bearer':
+      return { Authorization: `Bearer ${attrs('token') ?? ''}` };
+    case 'basic':
+      return { Authorization: `Basic ${toBase64(`${attrs('username') ?? ''}:${attrs('password') ?? ''}`)}` };
+    case 'apikey':
+      if ((attrs('in') ?? 'header') !== 'header') return {};
+      return { [attrs('key') || 'X-API-Key']: String(attrs('value') ?? '') };
+    default:
+      return {};
+  }
+};
+
+// Modes whose encoding doesn't depend on the Content-Type header
+const POSTMAN_BODY_ENCODINGS: Record<string, BodyEncoding> = {
+  urlencoded: 'form',
+  formdata: 'multipart',
+};
+
+const postmanBodyToTemplate = (body: any, variables: Record<string, string>): Record<string, any> => {
+  if (!body || body.disabled) return {};
+  switch (body.mode) {
+    case 'raw': {
+      // Unresolved variables used as bare JSON values ("price": {{price}}) are quoted so the body still parses
+      const raw = replacePostmanVariables(body.raw || '', variables)
+        .replace(/(:\s*)(\{\{[^{}]+\}\})(?=\s*[,}\]])/g, '$1"$2"');
+      return bodyStringToTemplate(raw, body.options?.raw?.language === 'json' ? 'application/json' : '');
+    }
+    case 'urlencoded':
+    case 'formdata': {
+      const result: Record<string, any> = {};
+      (body[body.mode] || [])
+        .filter((p: any) => !p.disabled)
+        .forEach((p: any) => {
+          result[p.key] = p.type === 'file' ? '' : replacePostmanVariables(String(p.value ?? ''), variables);
+        });
+      return result;
+    }
+    case 'graphql': {
+      let variablesObj: any = {};
+      try { variablesObj = JSON.parse(body.graphql?.variables || '{}'); } catch { /* keep empty */ }
+      return { query: body.graphql?.query || '', variables: variablesObj };
+    }
+    default:
+      return {};
+  }
+};
+
+export const parsePostmanCollection = (doc: any): ImportCandidate[] => {
+  if (!doc?.info || !Array.isArray(doc.item)) {
+    throw new Error('Not a Postman collection: missing "info" or "item".');
+  }
+
+  const variables: Record<string, string> = {};
+  (doc.variable || []).forEach((v: any) => {
+    if (v.key && !v.disabled) variables[v.key] = String(v.value ?? '');
+  });
+
+  const candidates: ImportCandidate[] = [];
+
+  const walk = (items: any[], folder: string[], inheritedAuth: any) => {
+    items.forEach((item, index) => {
+      const auth = item.auth !== undefined ? item.auth : inheritedAuth;
+      if (Array.isArray(item.item)) {
+        walk(item.item, [...folder, item.name || `Folder ${index + 1}`], auth);
+        return;
+      }
+      if (!item.request) return;
+
+      // A request can also be a bare URL string
+      const request = typeof item.request === 'string' ? { url: item.request } : item.request;
+      const requestAuth = request.auth !== undefined ? request.auth : auth;
+
+      const headers: Record<string, string> = { ...postmanAuthHeaders(requestAuth) };
+      (Array.isArray(request.header) ? request.header : []).forEach((h: any) => {
+        if (!h.disabled && h.key) headers[h.key] = replacePostmanVariables(String(h.value ?? ''), variables);
+      });
+
+      const url = replacePostmanVariables(postmanUrlToString(request.url), variables);
+      const method = request.method || 'GET';
+
+      candidates.push({
+        id: `postman-${candidates.length}`,
+        label: item.name || `${method} ${url}`,
+        group: folder.join(' / ') || undefined,
+        config: finalizeConfig({
+          method,
+          url,
+          headers: Object.fromEntries(Object.entries(headers).map(([k, v]) => [k, replacePostmanVariables(v, variables)])),
+          bodyTemplate: postmanBodyToTemplate(request.body, variables),
+          bodyEncoding: request.body && !request.body.disabled ? POSTMAN_BODY_ENCODINGS[request.body.mode] : undefined,
+        }),
+      });
+    });
+  };
+
+  walk(doc.item, [], doc.auth);
+  return candidates;
+};
+
+// --- HAR ---
+
+const STATIC_RESOURCE_TYPES = new Set(['image', 'stylesheet', 'script', 'font', 'media', 'manifest', 'texttrack']);
+
+export const parseHar = (doc: any): ImportCandidate[] => {
+  const entries = doc?.log?.entries;
+  if (!Array.isArray(entries)) {
+    throw new Error('Not a HAR file: missing "log.entries".');
+  }
+
+  const candidates: ImportCandidate[] = [];
+  entries.forEach((entry: any, index: number) => {
+    const request = entry.request;
+    if (!request?.url || request.url.startsWith('data:')) return;
+    if (entry._resourceType && STATIC_RESOURCE_TYPES.has(entry._resourceType)) return;
+
+    const headers: Record<string, string> = {};
+    (request.headers || []).forEach((h: any) => {
+      if (h.name && !isBrowserManagedHeader(h.name)) headers[h.name] = String(h.value ?? '');
+    });
+
+    const postData = request.postData;
+    let bodyTemplate: Record<string, any> = {};
+    let bodyEncoding: BodyEncoding | undefined;
+    if (postData) {
+      // Params without a MIME type come from an urlencoded form
+      bodyEncoding = detectBodyEncoding(postData.mimeType || (Array.isArray(postData.params) ? 'application/x-www-form-urlencoded' : ''), postData.text || '', false);
+      if (postData.text) {
+        bodyTemplate = bodyStringToTemplate(postData.text, postData.mimeType);
+      } else if (Array.isArray(postData.params)) {
+        postData.params.forEach((p: any) => { bodyTemplate[p.name] = p.fileName ? '' : String(p.value ?? ''); });
+      }
+    }
+
+    let group: string | undefined;
+    try { group = new URL(request.url).host; } catch { /* relative or malformed URL */ }
+    const status = entry.response?.status ? ` → ${entry.response.status}` : '';
+
+    candidates.push({
+      id: `har-${index}`,
+      label: `${request.method} ${request.url}${status}`,
+      group,
+      config: finalizeConfig({ method: request.method, url: request.url, headers, bodyTemplate, bodyEncoding }),
+    });
+  });
+
+  return candidates;
+};
+
+// --- OpenAPI 3 ---
+
+const resolveRef = (doc: any, ref: string): any => {
+  if (!ref.startsWith('#/')) return undefined;
+  return ref.slice(2).split('/').reduce((node: any, part: string) => {
+    const key = part.replace(/~1/g, '/').replace(/~0/g, '~');
+    return node !== undefined ? node[key] : undefined;
+  }, doc);
+};
+
+const derefObject = (doc: any, obj: any): any => {
+  let current = obj;
+  const seen = new Set<string>();
+  while (current && current.$ref && !seen.has(current.$ref)) {
+    seen.add(current.$ref);
+    current = resolveRef(doc, current.$ref);
+  }
+  return current;
+};
+
+const MAX_SCHEMA_DEPTH = 8;
+
+/**
+ * Builds an example value from a JSON schema, preferring explicit
+ * examples and defaults. Recursive references are cut off.
+ */
+export const buildExampleFromSchema = (schema: any, doc: any, refStack: string[] = [], depth = 0): any => {
+  if (!schema || depth > MAX_SCHEMA_DEPTH) return undefined;
+
+  if (schema.$ref) {
+    if (refStack.includes(schema.$ref)) return undefined;
+    return buildExampleFromSchema(resolveRef(doc, schema.$ref), doc, [...refStack, schema.$ref], depth);
+  }
+
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+  if (Array.isArray(schema.allOf)) {
+    return schema.allOf.reduce((acc: any, part: any) => {
+      const value = buildExampleFromSchema(part, doc, refStack, depth + 1);
+      return value !== null && typeof value === 'object' && !Array.isArray(value) ? { ...acc, ...value } : acc;
+    }, {});
+  }
+  const variants = schema.oneOf || schema.anyOf;
+  if (Array.isArray(variants) && variants.length > 0) {
+    return buildExampleFromSchema(variants[0], doc, refStack, depth + 1);
+  }
+
+  // OpenAPI 3.1 allows type arrays such as ["string", "null"]
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type;
+
+  if (type === 'object' || (!type && schema.properties)) {
+    const result: Record<string, any> = {};
+    Object.entries(schema.properties || {}).forEach(([key, propSchema]: [string, any]) => {
+      const resolved = derefObject(doc, propSchema);
+      if (resolved?.readOnly) return;
+      const value = buildExampleFromSchema(propSchema, doc, refStack, depth + 1);
+      if (value !== undefined) result[key] = value;
+    });
+    return result;
+  }
+
+  switch (type) {
+    case 'array': {
+      const item = buildExampleFromSchema(schema.items, doc, refStack, depth + 1);
+      return item !== undefined ? [item] : [];
+    }
+    case 'integer':
+    case 'number':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'string':
+      return '';
+    default:
+      return undefined;
+  }
+};
+
+const pickMediaType = (content: Record<string, any>): [string, any] | undefined => {
+  const entries = Object.entries(content || {});
+  return entries.find(([type]) => type === 'application/json')
+    || entries.find(([type]) => /[/+]json/.test(type))
+    || entries.find(([type]) => type === 'application/x-www-form-urlencoded')
+    || entries.find(([type]) => type === 'multipart/form-data')
+    || entries[0];
+};
+
+const resolveServerUrl = (server: any): string => {
+  if (!server?.url) return '';
+  return server.url.replace(/\{([^}]+)\}/g, (match: string, name: string) => {
+    const variable = server.variables?.[name];
+    return variable?.default !== undefined ? String(variable.default) : match;
+  });
+};
+
+const parameterExample = (param: any, doc: any): string => {
+  if (param.example !== undefined) return String(param.example);
+  const examples: Record<string, { value?: unknown }> = param.examples || {};
+  const firstExample = Object.values(examples)[0];
+  if (firstExample) return String(derefObject(doc, firstExample)?.value ?? '');
+  const value = buildExampleFromSchema(param.schema, doc);
+  return value === undefined || value === null ? '' : String(value);
+};
+
+const securityHeaders = (doc: any, requirements: any[] | undefined): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  const schemes = doc.components?.securitySchemes || {};
+  (requirements || []).forEach(requirement => {
+    Object.keys(requirement || {}).forEach(name => {
+      const scheme = derefObject(doc, schemes[name]);
+      if (!scheme) return;
+      if (scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'bearer') headers['Authorization'] = 'Bearer <token>';
+      else if (scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'basic') headers['Authorization'] = 'Basic <credentials>';
+      else if (scheme.type === 'apiKey' && scheme.in === 'header') headers[scheme.name] = '<api-key>';
+      else if (scheme.type === 'oauth2' || scheme.type === 'openIdConnect') headers['Authorization'] = 'Bearer <token>';
+    });
+  });
+  return headers;
+};
+
+export const parseOpenApi = (doc: any): ImportCandidate[] => {
+  if (typeof doc?.openapi !== 'string' || !doc.openapi.startsWith('3')) {
+    throw new Error(doc?.swagger ? 'Swagger 2.0 is not supported. Please convert the document to OpenAPI 3.' : 'Not an OpenAPI 3 document: missing "openapi" version.');
+  }
+  if (!doc.paths || typeof doc.paths !== 'object') {
+    throw new Error('OpenAPI document has no "paths".');
+  }
+
+  const candidates: ImportCandidate[] = [];
+
+  Object.entries(doc.paths).forEach(([path, rawPathItem]: [string, any]) => {
+    const pathItem = derefObject(doc, rawPathItem) || {};
+
+    HTTP_METHODS.forEach(method => {
+      const operation = pathItem[method];
+      if (!operation) return;
+
+      const server = (operation.servers || pathItem.servers || doc.servers || [])[0];
+      const baseUrl = resolveServerUrl(server).replace(/\/$/, '');
+
+      // Operation-level parameters override path-level ones with the same name and location
+      const params = new Map<string, any>();
+      [...(pathItem.parameters || []), ...(operation.parameters || [])].forEach((p: any) => {
+        const param = derefObject(doc, p);
+        if (param?.name) params.set(`${param.in}:${param.name}`, param);
+      });
+
+      const headers: Record<string, string> = {
+        ...securityHeaders(doc, operation.security !== undefined ? operation.security : doc.security),
+      };
+      const query: string[] = [];
+      params.forEach(param => {
+        if (param.in === 'header') {
+          headers[param.name] = parameterExample(param, doc);
+        } else if (param.in === 'query' && param.required) {
+          query.push(`${encodeURIComponent(param.name)}=${encodeURIComponent(parameterExample(param, doc))}`);
+        }
+      });
+
+      let bodyTemplate: Record<string, any> = {};
+      let bodyEncoding: BodyEncoding | undefined;
+      const requestBody = derefObject(doc, operation.requestBody);
+      const media = requestBody?.content ? pickMediaType(requestBody.content) : undefined;
+      if (media) {
+        const [contentType, mediaObject] = media;
+        bodyEncoding = detectBodyEncoding(contentType, '', false);
+        let example: any = mediaObject.example;
+        if (example === undefined && mediaObject.examples) {
+          const first = derefObject(doc, Object.values(mediaObject.examples)[0]);
+          example = first?.value;
+        }
+        if (example === undefined) example = buildExampleFromSchema(mediaObject.schema, doc);
+        if (typeof example === 'string') example = bodyStringToTemplate(example, contentType);
+        if (example !== null && typeof example === 'object' && !Array.isArray(example)) bodyTemplate = example;
+        if (!Object.keys(headers).some(h => h.toLowerCase() === 'content-type') && contentType !== 'multipart/form-data') {
+          headers['Content-Type'] = contentType;
+        }
+      }
+
+      const url = `${baseUrl}${path}${query.length > 0 ? `?${query.join('&')}` : ''}`;
+      const title = operation.summary || operation.operationId;
+
+      candidates.push({
+        id: `openapi-${method}-${path}`,
+        label: `${method.toUpperCase()} ${path}${title ? ` — ${title}` : ''}`,
+        group: operation.tags?.[0],
+        config: finalizeConfig({ method, url, headers, bodyTemplate, bodyEncoding }),
+      });
+    });
+  });
+
+  return candidates;
+};
+
+export const detectSpecSource = (doc: any): SpecSource | null => {
+  if (doc?.log?.entries) return 'har';
+  if (typeof doc?.openapi === 'string' || doc?.swagger) return 'openapi';
+  if (doc?.info && Array.isArray(doc.item)) return 'postman';
+  return null;
+};
+
+export const parseSpecDocument = (text: string, source?: SpecSource): { source: SpecSource, candidates: ImportCandidate[] } => {
+  let doc: any;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON. YAML documents must be converted to JSON first.');
+  }
+
+  const detected = detectSpecSource(doc);
+  const resolvedSource = source || detected;
+  if (!resolvedSource) throw new Error('Could not recognise the file as a Postman collection, HAR file or OpenAPI document.');
+  if (source && detected && source !== detected) {
+    throw new Error(`This looks like a ${detected === 'har' ? 'HAR file' : detected === 'openapi' ? 'OpenAPI document' : 'Postman collection'}, not the selected source.`);
+  }
+
+  const parsers: Record<SpecSource, (d: any) => ImportCandidate[]> = {
+    postman: parsePostmanCollection,
+    har: parseHar,
+    openapi: parseOpenApi,
+  };
+  const candidates = parsers[resolvedSource](doc);
+  if (candidates.length === 0) throw new Error('No requests found in the document.');
+  return { source: resolvedSource, candidates };
+};
@@ -0,0 +1,167 @@
+import { JsonPathOperator, SuccessRule, SuccessRuleKind } from "../types";
+import { getInvalidStatusCodes, parseStatusCodes } from "./retryPolicy";
+
+export const SUCCESS_RULE_LABELS: Record<SuccessRuleKind, string> = {
+  status: 'Status code',
+  json_path: 'JSON path',
+  body_regex: 'Body matches',
+  header: 'Header',
+};
+
+export const JSON_PATH_OPERATOR_LABELS: Record<JsonPathOperator, string> = {
+  equals: '==',
+  not_equals: '!=',
+  exists: 'exists',
+  not_exists: 'does not exist',
+};
+
+export const createSuccessRule = (kind: SuccessRuleKind): SuccessRule => {
+  switch (kind) {
+    case 'status': return { kind, statusCodes: '200-299' };
+    case 'json_path': return { kind, path: '$.success', operator: 'equals', expected: 'true' };
+    case 'body_regex': return { kind, pattern: '' };
+    case 'header': return { kind, header: '' };
+  }
+};
+
+const PATH_SEGMENT = /\.([^.[\]]+)|\[(\d+)\]|\[(['"])(.*?)\3\]/y;
+
+// Splits "$.data.items[0]['id']" into keys; the leading "$" and dot are optional. Null when malformed.
+export const parseResponsePath = (path: string): (string | number)[] | null => {
+  let rest = path.trim().replace(/^\$/, '');
+  if (rest && !rest.startsWith('.') && !rest.startsWith('[')) rest = `.${rest}`;
+  const keys: (string | number)[] = [];
+  PATH_SEGMENT.lastIndex = 0;
+  while (PATH_SEGMENT.lastIndex < rest.length) {
+    const match = PATH_SEGMENT.exec(rest);
+    if (!match) return null;
+    if (match[1] !== undefined) keys.push(match[1]);
+    else if (match[2] !== undefined) keys.push(Number(match[2]));
+    else keys.push(match[4]);
+  }
+  return keys;
+};
+
+export const getResponseValue = (value: any, keys: (string | number)[]): { found: boolean, value?: any } => {
+  let current = value;
+  for (const key of keys) {
+    if (current === null || typeof current !== 'object' || !(key in current)) return { found: false };
+    current = current[key];
+  }
+  return { found: true, value: current };
+};
+
+const matchesExpected = (actual: any, expected: string): boolean => {
+  let parsed: any = expected;
+  try {
+    parsed = JSON.parse(expected);
+  } catch { /* compared as text */ }
+  if (JSON.stringify(actual) === JSON.stringify(parsed)) return true;
+  return (actual === null || typeof actual !== 'object') && String(actual) === expected.trim();
+};
+
+const shortJson = (value: any): string => {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+export const describeSuccessRule = (rule: SuccessRule): string => {
+  switch (rule.kind) {
+    case 'status': return `status in ${rule.statusCodes || '(none)'}`;
+    case 'json_path': {
+      const operator = rule.operator || 'exists';
+      const expected = operator === 'equals' || operator === 'not_equals' ? ` ${rule.expected ?? ''}` : '';
+      return `${rule.path || '$'} ${JSON_PATH_OPERATOR_LABELS[operator]}${expected}`;
+    }
+    case 'body_regex': return `body matches /${rule.pattern || ''}/`;
+    case 'header': return rule.pattern ? `header ${rule.header} matches /${rule.pattern}/` : `header ${rule.header} present`;
+  }
+};
+
+// Why a rule can't be evaluated, for the config editor
+export const getSuccessRuleProblem = (rule: SuccessRule): string | null => {
+  const checkPattern = () => {
+    try {
+      new RegExp(rule.pattern || '');
+      return null;
+    } catch (e: any) {
+      return e.message;
+    }
+  };
+  switch (rule.kind) {
+    case 'status': {
+      const invalid = getInvalidStatusCodes(rule.statusCodes || '');
+      if (invalid.length > 0) return `"${invalid.join(', ')}" is not a status code or range.`;
+      return parseStatusCodes(rule.statusCodes || '').length === 0 ? 'list at least one status code.' : null;
+    }
+    case 'json_path':
+      if (!rule.path?.trim()) return 'the JSON path is empty.';
+      return parseResponsePath(rule.path) ? null : `"${rule.path}" is not a valid path.`;
+    case 'body_regex':
+      return rule.pattern ? checkPattern() : 'the pattern is empty.';
+    case 'header':
+      if (!rule.header?.trim()) return 'the header name is empty.';
+      return rule.pattern ? checkPattern() : null;
+  }
+};
+
+export interface ResponseSnapshot {
+  status: number;
+  headers: Headers;
+  text: string;
+}
+
+/**
+ * Evaluates the config's success rules against a response. failedRule
+ * describes the first rule that didn't pass; it is unset when the response
+ * only failed the default 2xx check.
+ */
+export const checkSuccess = (rules: SuccessRule[] | undefined, response: ResponseSnapshot): { ok: boolean, failedRule?: string } => {
+  const active = (rules || []).filter(rule => !getSuccessRuleProblem(rule));
+  const hasStatusRule = active.some(rule => rule.kind === 'status');
+  if (!hasStatusRule && (response.status < 200 || response.status > 299)) return { ok: false };
+
+  let json: { parsed: boolean, value?: any } | null = null;
+  const getJson = () => {
+    if (!json) {
+      try {
+        json = { parsed: true, value: JSON.parse(response.text) };
+      } catch {
+        json = { parsed: false };
+      }
+    }
+    return json;
+  };
+
+  for (const rule of active) {
+    const fail = (detail: string) => ({ ok: false, failedRule: `${describeSuccessRule(rule)} (${detail})` });
+    switch (rule.kind) {
+      case 'status':
+        if (!parseStatusCodes(rule.statusCodes!).some(([from, to]) => response.status >= from && response.status <= to)) {
+          return fail(`got ${response.status}`);
+        }
+        break;
+      case 'json_path': {
+        const body = getJson();
+        if (!body.parsed) return fail('response is not JSON');
+        const { found, value } = getResponseValue(body.value, parseResponsePath(rule.path!)!);
+        const operator = rule.operator || 'exists';
+        if (operator === 'exists' && !found) return fail('missing');
+        if (operator === 'not_exists' && found) return fail(`got ${shortJson(value)}`);
+        if (operator === 'equals' && !(found && matchesExpected(value, rule.expected ?? ''))) return fail(found ? `got ${shortJson(value)}` : 'missing');
+        if (operator === 'not_equals' && found && matchesExpected(value, rule.expected ?? '')) return fail(`got ${shortJson(value)}`);
+        break;
+      }
+      case 'body_regex':
+        if (!new RegExp(rule.pattern!).test(response.text)) return fail('no match');
+        break;
+      case 'header': {
+        const value = response.headers.get(rule.header!.trim());
+        if (value === null) return fail('missing or not exposed to CORS');
+        if (rule.pattern && !new RegExp(rule.pattern).test(value)) return fail(`got "${value}"`);
+        break;
+      }
+    }
+  }
+  return { ok: true };
+};
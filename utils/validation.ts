@@ -0,0 +1,282 @@
+import { ApiConfig, CsvRow, Mapping, ValidationRules, ValidationSeverity, CastFailurePolicy, RequestStep } from "../types";
+import { isBodyMapping } from "./dataUtils";
+import { buildRequest, BuiltRequest, getUrlPlaceholders, methodSendsBody, toParamText } from "./requestBuilder";
+import { FileIndex, fileNameReplacer } from "./fileAttachments";
+import { formatStepLabel, getChainedColumns } from "./requestSteps";
+
+export type ValidationRule = keyof Omit<ValidationRules, 'severity'> | 'payload' | 'cast' | 'file' | 'request';
+
+export interface ValidationViolation {
+  rowIndex: number;   // 0-based index into the data
+  column?: string;    // Source column, when the field is mapped to one
+  jsonPath: string;
+  rule: ValidationRule;
+  severity: ValidationSeverity;
+  message: string;
+}
+
+export interface PreflightResult {
+  rowCount: number;
+  violations: ValidationViolation[];
+  ruleErrors: string[]; // Rules that cannot be evaluated, e.g. an invalid regex
+  errorRows: number;    // Rows with at least one blocking violation
+  warningRows: number;  // Rows with warnings only
+  blocked: boolean;
+}
+
+export const RULE_LABELS: Record<ValidationRule, string> = {
+  required: 'Required',
+  pattern: 'Pattern',
+  min: 'Min',
+  max: 'Max',
+  minLength: 'Min length',
+  maxLength: 'Max length',
+  allowedValues: 'Allowed values',
+  unique: 'Unique',
+  payload: 'Payload',
+  cast: 'Type',
+  file: 'File',
+  request: 'Request',
+};
+
+// Number of rules set on a mapping, for badges in the mapping list
+export const countValidationRules = (rules?: ValidationRules): number => {
+  if (!rules) return 0;
+  let count = 0;
+  if (rules.required) count++;
+  if (rules.unique) count++;
+  if (rules.pattern) count++;
+  if (rules.min !== undefined) count++;
+  if (rules.max !== undefined) count++;
+  if (rules.minLength !== undefined) count++;
+  if (rules.maxLength !== undefined) count++;
+  if (rules.allowedValues && rules.allowedValues.length > 0) count++;
+  return count;
+};
+
+// Returns the error message for an invalid regular expression, or null
+export const getPatternError = (pattern: string): string | null => {
+  try {
+    new RegExp(pattern);
+    return null;
+  } catch (e: any) {
+    return e.message;
+  }
+};
+
+// Values at a mapping path in a built payload; "[]" segments fan out over the array items
+const getPayloadValues = (node: any, parts: string[]): any[] => {
+  if (parts.length === 0) return [node];
+  if (node === undefined || node === null || typeof node !== 'object') return [];
+  const [part, ...rest] = parts;
+  if (part.endsWith('[]')) {
+    const arr = node[part.slice(0, -2)];
+    if (!Array.isArray(arr)) return [];
+    return rest.length === 0 ? [arr] : arr.flatMap(item => getPayloadValues(item, rest));
+  }
+  if (!(part in node)) return [];
+  return getPayloadValues(node[part], rest);
+};
+
+const isEmptyValue = (value: any): boolean => {
+  if (value === undefined || value === null) return true;
+  if (value instanceof Blob) return false;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+};
+
+const formatValue = (value: any): string => {
+  const text = typeof value === 'string' ? `"${value}"` : JSON.stringify(value, fileNameReplacer);
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+};
+
+const CAST_OUTCOMES: Record<CastFailurePolicy, string> = {
+  fail_row: 'the row will not be sent',
+  use_default: 'the default value will be sent',
+  send_null: 'null will be sent',
+  omit_field: 'the field will be left out',
+};
+
+const toNumber = (value: any): number =>
+  typeof value === 'number' ? value : (typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN);
+
+// Value that stands in for a column an earlier step fills, so the request can still be built
+const DEFERRED_STAND_IN = '1';
+
+const summarize = (rowCount: number, violations: ValidationViolation[], ruleErrors: string[]): PreflightResult => {
+  const errorRowSet = new Set<number>();
+  const warningRowSet = new Set<number>();
+  violations.forEach(v => (v.severity === 'error' ? errorRowSet : warningRowSet).add(v.rowIndex));
+  errorRowSet.forEach(idx => warningRowSet.delete(idx));
+
+  return {
+    rowCount,
+    violations,
+    ruleErrors,
+    errorRows: errorRowSet.size,
+    warningRows: warningRowSet.size,
+    blocked: ruleErrors.length > 0 || errorRowSet.size > 0,
+  };
+};
+
+/**
+ * Builds the request for every row and checks each mapping's validation
+ * rules against the values that would be sent. Empty values only fail the
+ * "required" rule; the other rules apply to values that are present. Rules on
+ * file fields check the file name. Deferred columns are only filled while the
+ * job runs, so fields mapped to them are not checked.
+ */
+export const runPreflight = (config: ApiConfig, rows: CsvRow[], mappings: Mapping[], files?: FileIndex, deferredColumns: Set<string> = new Set()): PreflightResult => {
+  const violations: ValidationViolation[] = [];
+  const ruleErrors: string[] = [];
+  const isDeferred = (column?: string) => !!column && deferredColumns.has(column);
+
+  const checked = mappings
+    .filter(m => m.validation && countValidationRules(m.validation) > 0 && !isDeferred(m.csvHeader))
+    .map(m => {
+      const rules = m.validation!;
+      let regex: RegExp | null = null;
+      if (rules.pattern) {
+        const error = getPatternError(rules.pattern);
+        if (error) ruleErrors.push(`"${m.jsonPath}": invalid pattern /${rules.pattern}/ (${error})`);
+        else regex = new RegExp(rules.pattern);
+      }
+      if (rules.min !== undefined && rules.max !== undefined && rules.min > rules.max) {
+        ruleErrors.push(`"${m.jsonPath}": min (${rules.min}) is greater than max (${rules.max})`);
+      }
+      if (rules.minLength !== undefined && rules.maxLength !== undefined && rules.minLength > rules.maxLength) {
+        ruleErrors.push(`"${m.jsonPath}": min length (${rules.minLength}) is greater than max length (${rules.maxLength})`);
+      }
+      return {
+        mapping: m,
+        rules,
+        regex,
+        parts: m.jsonPath.split('.'),
+        severity: rules.severity || 'error',
+        allowed: rules.allowedValues && rules.allowedValues.length > 0 ? new Set(rules.allowedValues) : null,
+        seen: new Map<string, number>(), // Serialized value -> first row, for uniqueness
+      };
+    });
+
+  // File contents only travel as multipart body parts; anywhere else the file name would be sent instead
+  const uploadsFiles = !config.graphql && config.bodyEncoding === 'multipart' && methodSendsBody(config);
+  mappings
+    .filter(m => m.dataType === 'file' || (m.internalFields || []).some(f => f.dataType === 'file'))
+    .filter(m => !uploadsFiles || !isBodyMapping(m))
+    .forEach(m => ruleErrors.push(`"${m.jsonPath}": file fields are only uploaded as body fields with the "Multipart form-data" encoding; this request would send just the file name.`));
+
+  rows.forEach((row, rowIndex) => {
+    let source = row;
+    deferredColumns.forEach(column => {
+      if (!(source[column] ?? '').trim()) source = { ...source, [column]: DEFERRED_STAND_IN };
+    });
+
+    let built: BuiltRequest;
+    try {
+      built = buildRequest(config, source, mappings, files);
+    } catch (e: any) {
+      violations.push({ rowIndex, jsonPath: '', rule: 'payload', severity: 'error', message: `Payload could not be built: ${e.message}` });
+      return;
+    }
+
+    built.issues.forEach(message => {
+      violations.push({ rowIndex, jsonPath: '', rule: 'request', severity: 'error', message: `${message}.` });
+    });
+
+    // Only rows that would not be sent block the upload
+    built.diagnostics.filter(d => !isDeferred(d.csvHeader)).forEach(d => {
+      violations.push({
+        rowIndex,
+        column: d.csvHeader,
+        jsonPath: d.jsonPath,
+        rule: d.targetType === 'file' ? 'file' : 'cast',
+        severity: d.policy === 'fail_row' ? 'error' : 'warning',
+        message: `"${d.rawValue}" ${d.reason}; ${CAST_OUTCOMES[d.policy]}.`,
+      });
+    });
+    const castFailed = new Set(built.diagnostics.map(d => d.mappingId));
+
+    checked.forEach(({ mapping, rules, regex, parts, severity, allowed, seen }) => {
+      if (castFailed.has(mapping.id)) return;
+
+      const report = (rule: ValidationRule, message: string) => {
+        violations.push({ rowIndex, column: mapping.csvHeader || undefined, jsonPath: mapping.jsonPath, rule, severity, message });
+      };
+
+      const values = isBodyMapping(mapping)
+        ? getPayloadValues(built.payload, parts)
+        : (mapping.id in built.paramValues ? [built.paramValues[mapping.id]] : []);
+      const scalars = values.flatMap(v => Array.isArray(v) ? v : [v]).filter(v => !isEmptyValue(v));
+      // Casting turns an empty cell into 0 or false, so look at the source cell too
+      const sourceEmpty = mapping.csvHeader
+        ? (row[mapping.csvHeader] ?? '').trim() === ''
+        : (mapping.defaultValue ?? '').trim() === '';
+
+      if (sourceEmpty || scalars.length === 0) {
+        if (rules.required) report('required', 'Value is required.');
+        return;
+      }
+
+      scalars.forEach(value => {
+        const isFile = value instanceof Blob;
+        const isObject = typeof value === 'object' && !isFile;
+        const text = isObject ? JSON.stringify(value) : (isFile ? toParamText(value) : String(value));
+
+        if (regex && !isObject && !regex.test(text)) {
+          report('pattern', `${formatValue(value)} does not match /${rules.pattern}/.`);
+        }
+        if (rules.minLength !== undefined && text.length < rules.minLength) {
+          report('minLength', `${formatValue(value)} is shorter than ${rules.minLength} characters.`);
+        }
+        if (rules.maxLength !== undefined && text.length > rules.maxLength) {
+          report('maxLength', `${formatValue(value)} is longer than ${rules.maxLength} characters.`);
+        }
+        if (rules.min !== undefined || rules.max !== undefined) {
+          const num = toNumber(value);
+          if (isNaN(num)) {
+            report(rules.min !== undefined ? 'min' : 'max', `${formatValue(value)} is not a number.`);
+          } else if (rules.min !== undefined && num < rules.min) {
+            report('min', `${num} is less than the minimum of ${rules.min}.`);
+          } else if (rules.max !== undefined && num > rules.max) {
+            report('max', `${num} is greater than the maximum of ${rules.max}.`);
+          }
+        }
+        if (allowed && !allowed.has(text)) {
+          report('allowedValues', `${formatValue(value)} is not one of: ${rules.allowedValues!.join(', ')}.`);
+        }
+      });
+
+      if (rules.unique) {
+        const key = JSON.stringify(values, fileNameReplacer);
+        const firstRow = seen.get(key);
+        if (firstRow === undefined) seen.set(key, rowIndex);
+        else report('unique', `${formatValue(values.length === 1 ? values[0] : values)} is a duplicate of row ${firstRow + 1}.`);
+      }
+    });
+  });
+
+  return summarize(rows.length, violations, ruleErrors);
+};
+
+/**
+ * Runs the pre-flight check for every request step. Problems are prefixed
+ * with their step once there is more than one, and a step that was never
+ * mapped blocks the job.
+ */
+export const runChainPreflight = (steps: RequestStep[], rows: CsvRow[], files?: FileIndex): PreflightResult => {
+  if (steps.length === 1) return runPreflight(steps[0].config, rows, steps[0].mappings, files);
+  const violations: ValidationViolation[] = [];
+  const ruleErrors: string[] = [];
+  steps.forEach((step, index) => {
+    const label = formatStepLabel(steps, index);
+    const deferred = new Set(getChainedColumns(steps, index).map(c => c.column));
+    const needsMappings = Object.keys(step.config.bodyTemplate || {}).length > 0 || getUrlPlaceholders(step.config.url).length > 0;
+    if (step.mappings.length === 0 && needsMappings) ruleErrors.push(`${label}: no fields are mapped yet; open the step in Map Data.`);
+    const result = runPreflight(step.config, rows, step.mappings, files, deferred);
+    result.violations.forEach(v => violations.push({ ...v, message: `${label}: ${v.message}` }));
+    result.ruleErrors.forEach(error => ruleErrors.push(`${label}: ${error}`));
+  });
+  return summarize(rows.length, violations, ruleErrors);
+};